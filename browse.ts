@@ -0,0 +1,188 @@
+import * as S3 from '@aws-sdk/client-s3'
+import colors from 'ansi-colors'
+import { ArgumentsCamelCase } from 'yargs'
+import { listBucketPages, listObjectPages } from './listing'
+import { describeError } from './multipart'
+import { createClient } from './s3'
+import { directoryPrefix, formatLocation, parseLocation, R2Location, sizeFormat } from './transfer'
+import { countOf } from './util'
+
+export interface LsArgs {
+  location?: string
+  long?: boolean
+  account?: string
+  verbose?: boolean
+}
+
+export interface DuArgs {
+  location: string
+  depth: number
+  account?: string
+  verbose?: boolean
+}
+
+function parseR2Location(spec: string): R2Location | undefined {
+  const location = parseLocation(spec)
+  if (location.err) {
+    console.error(location.val.message)
+  } else if (location.val.kind !== 'r2') {
+    console.error(`${spec} isn't an R2 location. Expected r2://[profile@]bucket/prefix`)
+  } else {
+    return location.val
+  }
+  process.exitCode = 1
+  return undefined
+}
+
+function formatDate(date: Date | undefined): string {
+  return date?.toISOString().replace('T', ' ').replace(/\.\d+Z$/, '') ?? ''
+}
+
+// Lines up columns, leaving the last one (the name) as is so that long names don't push the rest out.
+function printColumns(rows: string[][], rightAligned: number[]): void {
+  const widths = rows[0]?.map((_, idx) => Math.max(...rows.map((row) => row[idx]!.length))) ?? []
+  for (const row of rows) {
+    const cells = row.map((cell, idx) => {
+      if (idx === row.length - 1) {
+        return cell
+      }
+      return rightAligned.includes(idx) ? cell.padStart(widths[idx]!) : cell.padEnd(widths[idx]!)
+    })
+    console.info(cells.join('  '))
+  }
+}
+
+async function listBuckets(argv: ArgumentsCamelCase<LsArgs>): Promise<void> {
+  const created = await createClient(argv)
+  if (created.err) {
+    if (created.val.message) {
+      console.error(created.val.message)
+    }
+    process.exitCode = 1
+    return
+  }
+
+  const rows: string[][] = []
+  try {
+    for await (const page of listBucketPages(created.val, {})) {
+      rows.push(...(page.Buckets ?? []).map(({ Name, CreationDate }) => [formatDate(CreationDate), Name!]))
+    }
+  } catch (e) {
+    console.error(`Unable to list buckets: ${describeError(e)}`)
+    process.exitCode = 1
+    return
+  }
+  printColumns(rows, [])
+}
+
+// Lists a "directory" the way ls would, using `/` as the delimiter so that everything further down shows up as a
+// single entry. Names are shown relative to the directory the prefix is in.
+export async function lsCommand(argv: ArgumentsCamelCase<LsArgs>): Promise<void> {
+  if (argv.location === undefined) {
+    return listBuckets(argv)
+  }
+  const location = parseR2Location(argv.location)
+  if (location === undefined) {
+    return
+  }
+
+  const created = await createClient({
+    account: location.profile ?? argv.account,
+    bucket: location.bucket,
+    verbose: argv.verbose,
+  })
+  if (created.err) {
+    if (created.val.message) {
+      console.error(created.val.message)
+    }
+    process.exitCode = 1
+    return
+  }
+
+  const directories: string[] = []
+  const objects: S3._Object[] = []
+  try {
+    const input = { Bucket: location.bucket, Prefix: location.key, Delimiter: '/' }
+    for await (const page of listObjectPages(created.val, input)) {
+      directories.push(...(page.CommonPrefixes ?? []).map(({ Prefix }) => Prefix!))
+      objects.push(...page.Contents ?? [])
+    }
+  } catch (e) {
+    console.error(`Unable to list ${argv.location}: ${describeError(e)}`)
+    process.exitCode = 1
+    return
+  }
+
+  const parent = location.key.slice(0, location.key.lastIndexOf('/') + 1)
+  const name = (key: string) => key.slice(parent.length) || key
+  const directoryRow = (prefix: string) => ['', 'DIR', ...argv.long ? ['', ''] : [], colors.bold.blue(name(prefix))]
+  const objectRow = (object: S3._Object) => {
+    const long = argv.long ? [object.ETag ?? '', object.StorageClass ?? ''] : []
+    return [formatDate(object.LastModified), `${sizeFormat(object.Size ?? 0)}`, ...long, name(object.Key!)]
+  }
+  printColumns([...directories.map(directoryRow), ...objects.map(objectRow)], [1])
+}
+
+interface Usage {
+  objects: number
+  bytes: number
+}
+
+// Totals up the objects under a prefix, and under each "directory" in it down to `depth` levels, like du.
+export async function duCommand(argv: ArgumentsCamelCase<DuArgs>): Promise<void> {
+  if (!Number.isInteger(argv.depth) || argv.depth < 0) {
+    console.error('The depth must be 0 or more')
+    process.exitCode = 1
+    return
+  }
+  const location = parseR2Location(argv.location)
+  if (location === undefined) {
+    return
+  }
+
+  const created = await createClient({
+    account: location.profile ?? argv.account,
+    bucket: location.bucket,
+    verbose: argv.verbose,
+  })
+  if (created.err) {
+    if (created.val.message) {
+      console.error(created.val.message)
+    }
+    process.exitCode = 1
+    return
+  }
+
+  const prefix = directoryPrefix(location.key)
+  const total: Usage = { objects: 0, bytes: 0 }
+  const directories = new Map<string, Usage>()
+  try {
+    for await (const page of listObjectPages(created.val, { Bucket: location.bucket, Prefix: prefix })) {
+      for (const object of page.Contents ?? []) {
+        const size = object.Size ?? 0
+        total.objects++
+        total.bytes += size
+        // Every directory the object is in counts it, down to the depth asked for.
+        const segments = object.Key!.slice(prefix.length).split('/').slice(0, -1)
+        for (let level = 1; level <= Math.min(argv.depth, segments.length); level++) {
+          const directory = `${prefix}${segments.slice(0, level).join('/')}/`
+          const usage = directories.get(directory) ?? { objects: 0, bytes: 0 }
+          usage.objects++
+          usage.bytes += size
+          directories.set(directory, usage)
+        }
+      }
+    }
+  } catch (e) {
+    console.error(`Unable to list ${argv.location}: ${describeError(e)}`)
+    process.exitCode = 1
+    return
+  }
+
+  const row = (usage: Usage, label: string) => [`${sizeFormat(usage.bytes)}`, countOf(usage.objects, 'object'), label]
+  const label = (key: string) => formatLocation({ ...location, key })
+  printColumns([
+    ...[...directories.keys()].sort().map((directory) => row(directories.get(directory)!, label(directory))),
+    row(total, label(prefix)),
+  ], [0, 1])
+}
@@ -1,71 +1,47 @@
 import * as S3 from '@aws-sdk/client-s3'
 import TOML from '@iarna/toml'
-import getos from 'getos'
+import colors from 'ansi-colors'
 import { parse as parseINI } from 'ini'
 import inquirer from 'inquirer'
-import { execFileSync } from 'node:child_process'
 import fs from 'node:fs'
 import path from 'node:path'
 import { Err, Ok, Result } from 'ts-results'
 import { ArgumentsCamelCase } from 'yargs'
-
-async function touchPath(p: string): Promise<void> {
-  const fd = await new Promise<number>((resolve, reject) =>
-    fs.open(p, 'a', undefined, (err, fd) => {
-      if (err) {
-        reject(err)
-      } else {
-        resolve(fd)
-      }
-    })
-  )
-
-  return new Promise<void>((resolve, reject) => {
-    fs.close(fd, (err) => {
-      if (err) {
-        reject(err)
-      } else {
-        resolve()
-      }
-    })
-  })
-}
-
-async function readTextFile(p: string): Promise<string> {
-  const chunks: Buffer[] = []
-  return new Promise<string>((resolve, reject) => {
-    fs.readFile(p, { encoding: 'utf8' }, (err, data) => {
-      if (err) { reject(err) }
-      resolve(data)
-    })
-  })
-}
-
-async function writeTextFile(p: string, contents: string): Promise<void> {
-  return new Promise<void>((resolve, reject) => {
-    fs.writeFile(p, contents, { encoding: 'utf8' }, (err) => {
-      if (err) { reject(err) }
-      resolve()
-    })
-  })
+import { CredentialStore, CredentialStoreName, credentialStoreNames, EncryptedFileStore, EnvironmentStore, isCredentialStoreName, KeychainStore } from './creds'
+import { CURRENT_CONFIG_VERSION, isJurisdiction, Jurisdiction, parseR2Config, profileAllowsBucket, ProfileInfo, R2ConfigFile, serializeR2Config } from './schema'
+import { readTextFile, touchPath, writeTextFile, writeTextFileAtomic } from './util'
+
+interface CandidatePathsOptions {
+  // An environment variable naming the file to use instead of searching (e.g. AWS_CONFIG_FILE).
+  envOverride?: string
+  // The tool keeps its files in a dot folder in the home directory (e.g. ~/.aws/config) and never in the current
+  // directory.
+  homeDotFolder?: boolean
 }
 
 class CandidatePaths {
   private readonly projectFolder: string
-  private readonly local: string
+  private readonly override: string | undefined
+  private readonly local: string | undefined
   private readonly winAppDataPath: string | undefined
   private readonly xdgConfigPath: string | undefined
   private readonly homePaths: string[]
 
-  constructor(projectFolder: string, configName: string) {
+  constructor(projectFolder: string, configName: string, options: CandidatePathsOptions = {}) {
     this.projectFolder = projectFolder
 
-    this.local = `${configName}`
-    if (process.platform === 'win32' && process.env['APPDATA']) {
-      this.winAppDataPath = `${process.env['APPDATA']}/${projectFolder}/${configName}`
+    if (options.envOverride !== undefined && process.env[options.envOverride]) {
+      this.override = process.env[options.envOverride]
     }
-    if (process.env['XDG_CONFIG_HOME']) {
-      this.xdgConfigPath = `${process.env['XDG_CONFIG_HOME']}/${projectFolder}/${configName}`
+
+    if (!options.homeDotFolder) {
+      this.local = `${configName}`
+      if (process.platform === 'win32' && process.env['APPDATA']) {
+        this.winAppDataPath = `${process.env['APPDATA']}/${projectFolder}/${configName}`
+      }
+      if (process.env['XDG_CONFIG_HOME']) {
+        this.xdgConfigPath = `${process.env['XDG_CONFIG_HOME']}/${projectFolder}/${configName}`
+      }
     }
 
     let home = process.env['HOME'] ||
@@ -74,49 +50,59 @@ class CandidatePaths {
         path.join(process.env['HOMEDRIVE'], process.env['HOMEPATH']) :
         undefined)
 
-    if (home !== undefined) {
-      this.homePaths = [`${home}/.config/${projectFolder}/${configName}`, `${home}/.${configName}`]
-    } else {
+    if (home === undefined) {
       this.homePaths = []
+    } else if (options.homeDotFolder) {
+      this.homePaths = [`${home}/.${projectFolder}/${configName}`]
+    } else {
+      this.homePaths = [`${home}/.config/${projectFolder}/${configName}`, `${home}/.${configName}`]
     }
   }
 
   get candidatePaths(): string[] {
+    if (this.override !== undefined) {
+      return [this.override]
+    }
+
     return [this.local, this.winAppDataPath, this.xdgConfigPath, ...this.homePaths].flatMap((v) =>
       v !== undefined ? [v] : []
     )
   }
 
-  async findExistingConfig(): Promise<string | undefined> {
-    for (const p of [this.local, this.winAppDataPath, this.xdgConfigPath, ...this.homePaths]) {
-      if (p === undefined) {
-        continue
-      }
+  // Where the tool itself would create its configuration if there isn't one yet.
+  get preferredPath(): string | undefined {
+    if (this.override !== undefined) {
+      return this.override
+    }
 
-      const exists = await new Promise<boolean>((resolve) =>
-        fs.access(p, fs.constants.R_OK, (err) => err ? resolve(false) : resolve(true))
-      )
-      if (exists) {
-        return p
-      }
+    if (process.platform === 'win32') {
+      return this.winAppDataPath ?? this.homePaths[0]
     }
+    return this.xdgConfigPath ?? this.homePaths[0]
+  }
 
-    return undefined
+  async findExistingConfig(): Promise<string | undefined> {
+    return firstReadablePath(this.candidatePaths)
+  }
+
+  // Finds a file made by createInitialConfig without creating one if there isn't any.
+  async findInitialConfig(): Promise<string | undefined> {
+    return firstReadablePath([...this.initialConfigPaths, ...this.homePaths.slice(1)])
   }
 
-  async createInitialConfig(): Promise<Result<string, Error>> {
+  private get initialConfigPaths(): (string | undefined)[] {
+    if (process.platform === 'win32') {
+      return [this.winAppDataPath, this.homePaths[0]]
+    }
+    return [this.xdgConfigPath, this.homePaths[0]]
+  }
+
+  async createInitialConfig(mode?: fs.Mode): Promise<Result<string, Error>> {
     if (this.projectFolder !== 'cloudflare') {
       throw new Error(`Attempt to touch someone else's project`)
     }
 
-    let candidatePaths = []
-    if (process.platform === 'win32') {
-      candidatePaths.push(this.winAppDataPath)
-      candidatePaths.push(this.homePaths[0])
-    } else {
-      candidatePaths.push(this.xdgConfigPath)
-      candidatePaths.push(this.homePaths[0])
-    }
+    const candidatePaths = this.initialConfigPaths
 
     for (const p of candidatePaths) {
       if (p === undefined) {
@@ -136,7 +122,7 @@ class CandidatePaths {
 
       // Touch the file
       try {
-        await touchPath(p)
+        await touchPath(p, mode)
       } catch (e) {
         console.warn('Trouble touching config path', p, e)
         continue
@@ -147,7 +133,7 @@ class CandidatePaths {
     if (this.homePaths[1]) {
       const p = this.homePaths[1]
       try {
-        await touchPath(p)
+        await touchPath(p, mode)
         return Ok(p)
       } catch (e) {
         console.warn('Trouble touching config path', p, e)
@@ -158,163 +144,351 @@ class CandidatePaths {
   }
 }
 
-function accountForR2URL(r2Url: string): string {
-  const url = new URL(r2Url)
-  return url.hostname.split('.')[0]
+async function firstReadablePath(paths: (string | undefined)[]): Promise<string | undefined> {
+  for (const p of paths) {
+    if (p === undefined) {
+      continue
+    }
+    const exists = await new Promise<boolean>((resolve) =>
+      fs.access(p, fs.constants.R_OK, (err) => err ? resolve(false) : resolve(true))
+    )
+    if (exists) {
+      return p
+    }
+  }
+
+  return undefined
+}
+
+// Where `put-object --resumable` records the progress of uploads so they can be picked up again.
+export function uploadCheckpointDirectory(): string | undefined {
+  return new CandidatePaths('cloudflare', 'r2-uploads', { envOverride: 'R2_UPLOAD_CHECKPOINT_DIR' }).preferredPath
+}
+
+// Where requests for a profile go. This is also the namespace its secret is saved under in the credential store so
+// everything needs to derive it the same way, through profileEndpoint.
+interface EndpointSettings {
+  account_id: string
+  jurisdiction?: Jurisdiction
+  // Overrides everything else (e.g. a local MinIO standing in for R2).
+  endpoint?: string
+}
+
+function profileEndpoint(settings: EndpointSettings): string {
+  if (settings.endpoint !== undefined) {
+    return settings.endpoint
+  }
+  if (settings.jurisdiction !== undefined) {
+    return `https://${settings.account_id}.${settings.jurisdiction}.r2.cloudflarestorage.com`
+  }
+  return `https://${settings.account_id}.r2.cloudflarestorage.com`
+}
+
+function profileForSettings(
+  settings: EndpointSettings,
+  access_key_id: string,
+  store: CredentialStoreName,
+): ProfileInfo {
+  return {
+    account: settings.account_id,
+    access_key_id,
+    store,
+    ...(settings.jurisdiction !== undefined && { jurisdiction: settings.jurisdiction }),
+    ...(settings.endpoint !== undefined && { endpoint: settings.endpoint }),
+  }
+}
+
+function endpointSettingsForProfile(info: ProfileInfo): EndpointSettings {
+  return { account_id: info.account, jurisdiction: info.jurisdiction, endpoint: info.endpoint }
+}
+
+// The inverse of profileEndpoint for R2 URLs found in other tools' configuration.
+function endpointSettingsForR2URL(r2Url: string): EndpointSettings {
+  const [account_id, ...rest] = new URL(r2Url).hostname.split('.')
+  const jurisdiction = rest.length === 4 ? rest[0] : undefined
+  if (jurisdiction === undefined) {
+    return { account_id }
+  }
+  if (isJurisdiction(jurisdiction)) {
+    return { account_id, jurisdiction }
+  }
+  return { account_id, endpoint: r2Url }
+}
+
+function isR2URL(url: string | undefined): url is string {
+  if (url === undefined) {
+    return false
+  }
+
+  try {
+    return new URL(url).hostname.endsWith('.r2.cloudflarestorage.com')
+  } catch (e) {
+    return false
+  }
 }
 
 interface Config {
   profile: string
   account_id: string
+  jurisdiction?: Jurisdiction
+  // Always resolved (see profileEndpoint).
+  endpoint: string
   access_key_id: string
   secret_access_key: string
+  store: CredentialStoreName
 }
 
-async function loadKeytar(): Promise<Result<typeof import('keytar'), Error>> {
-  const distro = await new Promise<getos.Os>((resolve, reject) => {
-    getos((e, os) => {
-      if (e) { reject(e) }
-      else { resolve(os) }
-    })
-  })
+function configForProfile(profile: string, info: ProfileInfo, secret_access_key: string): Config {
+  const settings = endpointSettingsForProfile(info)
+  return {
+    profile,
+    ...settings,
+    endpoint: profileEndpoint(settings),
+    access_key_id: info.access_key_id,
+    secret_access_key,
+    store: info.store ?? 'keychain',
+  }
+}
 
-  if (distro.os === 'linux') {
-    const libsecretFile = '/usr/lib/libsecret-1.so'
-    if (!fs.existsSync(libsecretFile)) {
-      let installCommand = (() => {
-        switch (distro.dist) {
-          case 'Arch Linux':
-            return ['pacman', '-S', 'libsecret']
-          case 'Ubuntu':
-          case 'Debian GNU/Linux':
-            return ['apt', 'install', 'libsecret-1-dev']
-          case 'Fedora':
-            return ['yum', 'install', 'libsecret-devel']
-          default:
-            console.error(
-              `libsecret doesn't appear to be installed and not a currently supported Linux distribution at this time`,
-            )
-            return undefined
-        }
-      })()
-      if (installCommand === undefined) {
-        return Err(new Error('libsecret required and not available'))
-      }
+function configForEnvironment(
+  fromEnv: { account_id: string; access_key_id: string; secret_access_key: string },
+): Config {
+  return { profile: 'env', ...fromEnv, endpoint: profileEndpoint(fromEnv), store: 'env' }
+}
 
-      console.log(
-        `Running ${
-          ['/usr/bin/sudo', ...installCommand].join(' ')
-        } to install libsecret. You may be prompted for a password.`,
-      )
+type CredentialSettings = EndpointSettings & { access_key_id: string; store?: CredentialStoreName }
+
+function credentialSettingsForProfile(info: ProfileInfo): CredentialSettings {
+  return { ...endpointSettingsForProfile(info), access_key_id: info.access_key_id, store: info.store }
+}
+
+interface LoadedR2Config {
+  path: string
+  config: R2ConfigFile
+}
 
-      execFileSync('/usr/bin/sudo', installCommand, { encoding: 'utf-8', input: 'inherit', stdio: 'inherit' })
+// Every read of r2.toml goes through here so that the file is always validated and older layouts get migrated (with
+// a backup of the original left next to it) before anything looks at the profiles.
+async function loadR2Config(): Promise<Result<LoadedR2Config, Error>> {
+  const r2ConfigPaths = new CandidatePaths('cloudflare', 'r2.toml')
+  const configFilePath = await r2ConfigPaths.createInitialConfig()
+  if (configFilePath.err) {
+    return configFilePath
+  }
+
+  const contents = await readTextFile(configFilePath.val)
+  let raw: TOML.JsonMap
+  try {
+    raw = TOML.parse(contents)
+  } catch (e) {
+    return Err(new Error(`Trouble parsing ${configFilePath.val}: ${(e as Error).message}`))
+  }
+
+  const parsed = parseR2Config(raw)
+  if (parsed.err) {
+    return Err(new Error(`${configFilePath.val} is not a valid r2 configuration:\n${parsed.val.message}`))
+  }
+
+  const loaded = { path: configFilePath.val, config: parsed.val.config }
+  if (parsed.val.migrated) {
+    if (contents.trim() !== '') {
+      const backupPath = `${configFilePath.val}.bak`
+      await writeTextFile(backupPath, contents, 0o600)
+      console.error(
+        `Migrated ${configFilePath.val} to version ${CURRENT_CONFIG_VERSION}. The original was saved to ${backupPath}.`,
+      )
     }
+    await saveR2Config(loaded)
   }
 
-  return Ok((await import('keytar')).default)
+  return Ok(loaded)
 }
 
-async function saveCreds(config: Omit<Config, 'profile'>): Promise<void> {
-  const endpoint = `https://${config.account_id}.r2.cloudflarestorage.com`
-
-  console.log(`Validating credential ${config.access_key_id} for ${endpoint}`)
+async function saveR2Config(loaded: LoadedR2Config): Promise<void> {
+  await writeTextFileAtomic(loaded.path, serializeR2Config(loaded.config))
+}
 
+// Tokens scoped to buckets can't list buckets, so those are checked by looking up one of their buckets instead. Returns
+// the request that was made, or undefined if the token is only scoped to patterns and so there's no bucket to look up.
+async function validateCreds(
+  config: EndpointSettings & { access_key_id: string; secret_access_key: string },
+  buckets?: string[],
+): Promise<Result<string | undefined, Error>> {
   const s3 = new S3.S3({
-    endpoint,
+    region: 'auto',
+    endpoint: profileEndpoint(config),
+    forcePathStyle: true,
     credentials: { accessKeyId: config.access_key_id, secretAccessKey: config.secret_access_key },
   })
 
   try {
-    await s3.listBuckets({})
+    if (buckets === undefined) {
+      await s3.listBuckets({})
+      return Ok('ListBuckets')
+    }
+    const bucket = buckets.find((pattern) => !/[*?]/.test(pattern))
+    if (bucket === undefined) {
+      return Ok(undefined)
+    }
+    await s3.headBucket({ Bucket: bucket })
+    return Ok(`HeadBucket on ${bucket}`)
   } catch (e) {
-    console.error('Credentials failed to validate.', (e as Error).message)
-    process.exit(1)
+    return Err(new Error(`Credentials failed to validate. ${(e as Error).message}`))
   }
+}
 
-  console.log(
-    `Securely saving R2 token with id ${config.access_key_id} for ${endpoint} in your OS encrypted password storage.`,
-  )
+// The encrypted file is only created when `create` is set, i.e. when a secret is about to be saved. It's only readable
+// by the user since it holds the tokens, even if they are encrypted.
+export async function openCredentialStore(
+  name: CredentialStoreName,
+  create = false,
+): Promise<Result<CredentialStore, Error>> {
+  switch (name) {
+    case 'keychain':
+      return KeychainStore.load()
+    case 'file': {
+      const credsPaths = new CandidatePaths('cloudflare', 'r2-credentials.json')
+      const existing = await credsPaths.findInitialConfig()
+      if (existing !== undefined) {
+        return Ok(new EncryptedFileStore(existing))
+      }
+      if (!create) {
+        // Reading from a file that doesn't exist yet just finds no secrets.
+        return credsPaths.preferredPath === undefined ?
+          Err(new Error('Unable to work out where the credentials file would be')) :
+          Ok(new EncryptedFileStore(credsPaths.preferredPath))
+      }
+      const credsFilePath = await credsPaths.createInitialConfig(0o600)
+      if (credsFilePath.err) {
+        return credsFilePath
+      }
+      return Ok(new EncryptedFileStore(credsFilePath.val))
+    }
+    case 'env':
+      return Ok(new EnvironmentStore())
+  }
+}
 
-  const keytar = await loadKeytar()
-  if (keytar.err) {
-    process.exitCode = 1
-    return
+// Picks the store to save new credentials into. An explicitly requested store must work but if the user didn't ask
+// for anything in particular we fall back to the encrypted file when there's no OS keychain (e.g. headless Linux).
+async function chooseCredentialStore(requested?: string): Promise<Result<CredentialStore, Error>> {
+  if (requested !== undefined) {
+    if (!isCredentialStoreName(requested)) {
+      return Err(
+        new Error(`Unknown credential store '${requested}'. Expected one of ${credentialStoreNames.join(', ')}`),
+      )
+    }
+    return openCredentialStore(requested, true)
+  }
+
+  const keychain = await openCredentialStore('keychain')
+  if (keychain.ok) {
+    return keychain
   }
 
-  await keytar.val.setPassword(endpoint, config.access_key_id, config.secret_access_key)
+  console.warn(`${keychain.val.message} Falling back to the encrypted file store.`)
+  return openCredentialStore('file', true)
 }
 
-async function retrieveCreds(config: { account_id: string; access_key_id: string }): Promise<Result<string, Error>> {
-  const endpoint = `https://${config.account_id}.r2.cloudflarestorage.com`
+async function saveCreds(
+  config: EndpointSettings & { access_key_id: string; secret_access_key: string },
+  store: CredentialStore,
+  buckets?: string[],
+): Promise<Result<void, Error>> {
+  const endpoint = profileEndpoint(config)
 
-  console.log(
-    `Retrieving R2 token secret with id ${config.access_key_id} for ${endpoint} from your OS encrypted password storage.`,
-  )
+  console.log(`Validating credential ${config.access_key_id} for ${endpoint}`)
 
-  const keytar = await loadKeytar()
-  if (keytar.err) {
-    return keytar
+  const validated = await validateCreds(config, buckets)
+  if (validated.err) {
+    return validated
   }
-
-  const secret_access_key = await keytar.val.getPassword(endpoint, config.access_key_id)
-  if (secret_access_key === null) {
-    return Err(new Error('No credentials found'))
+  if (validated.val === undefined) {
+    console.warn(`Unable to validate credential ${config.access_key_id} since it's only scoped to bucket patterns`)
   }
 
-  return Ok(secret_access_key)
+  console.log(`Securely saving R2 token with id ${config.access_key_id} for ${endpoint} in ${store.description}.`)
+
+  return store.setSecret(
+    { service: endpoint, account_id: config.account_id, access_key_id: config.access_key_id },
+    config.secret_access_key,
+  )
 }
 
-async function removeCred(config: { account_id: string; access_key_id: string }): Promise<Result<void, Error>> {
-  const endpoint = `https://${config.account_id}.r2.cloudflarestorage.com`
+async function retrieveCreds(config: CredentialSettings): Promise<Result<string, Error>> {
+  const endpoint = profileEndpoint(config)
+
+  const store = await openCredentialStore(config.store ?? 'keychain')
+  if (store.err) {
+    console.error(store.val.message)
+    return store
+  }
 
-  console.log(
-    `Removing R2 token secret with id ${config.access_key_id} for ${endpoint} from your OS encrypted password storage.`,
+  // Goes to stderr so that it doesn't get mixed into output that's meant to be piped somewhere.
+  console.error(
+    `Retrieving R2 token secret with id ${config.access_key_id} for ${endpoint} from ${store.val.description}.`,
   )
 
-  const keytar = await loadKeytar()
-  if (keytar.err) {
-    return keytar
-  }
+  return store.val.getSecret({ service: endpoint, account_id: config.account_id, access_key_id: config.access_key_id })
+}
+
+async function removeCred(config: CredentialSettings): Promise<Result<void, Error>> {
+  const endpoint = profileEndpoint(config)
 
-  if (await keytar.val.deletePassword(endpoint, config.access_key_id)) {
-    return Ok.EMPTY
+  const store = await openCredentialStore(config.store ?? 'keychain')
+  if (store.err) {
+    console.error(store.val.message)
+    return store
   }
 
-  return Err(new Error('Unknown problem removing token secret'))
+  console.log(`Removing R2 token secret with id ${config.access_key_id} for ${endpoint} from ${store.val.description}.`)
+
+  return store.val.deleteSecret({
+    service: endpoint,
+    account_id: config.account_id,
+    access_key_id: config.access_key_id,
+  })
 }
 
-async function listCreds(account: string): Promise<Result<string[], Error>> {
-  const keytar = await loadKeytar()
-  if (keytar.err) {
-    return keytar
+async function listCreds(settings: EndpointSettings, storeName: CredentialStoreName): Promise<Result<string[], Error>> {
+  const store = await openCredentialStore(storeName)
+  if (store.err) {
+    console.error(store.val.message)
+    return store
   }
 
-  const endpoint = `https://${account}.r2.cloudflarestorage.com`
+  return store.val.listAccessKeyIds({ service: profileEndpoint(settings), account_id: settings.account_id })
+}
+
+type CredentialCommandArgs = {
+  account: string
+  store: CredentialStoreName
+  jurisdiction?: Jurisdiction
+  endpoint?: string
+}
 
-  const creds = await keytar.val.findCredentials(endpoint)
-  return Ok(creds.map(({ account }) => account))
+function endpointSettingsForArgs(argv: CredentialCommandArgs): EndpointSettings {
+  return { account_id: argv.account, jurisdiction: argv.jurisdiction, endpoint: argv.endpoint }
 }
 
-export async function listCredsCommand(argv: ArgumentsCamelCase<{ account: string }>): Promise<void> {
-  const keytar = await loadKeytar()
-  if (keytar.err) {
+export async function listCredsCommand(argv: ArgumentsCamelCase<CredentialCommandArgs>): Promise<void> {
+  const creds = await listCreds(endpointSettingsForArgs(argv), argv.store)
+  if (creds.err) {
     process.exitCode = 1
     return
   }
 
-  const endpoint = `https://${argv.account}.r2.cloudflarestorage.com`
-
-  for (const cred of await keytar.val.findCredentials(endpoint)) {
-    console.info(`Found token id ${cred.account}`)
+  for (const cred of creds.val) {
+    console.info(`Found token id ${cred}`)
   }
 }
 
 export async function removeCredCommand(
-  argv: ArgumentsCamelCase<{ account: string; 'access-key-id'?: string }>,
+  argv: ArgumentsCamelCase<CredentialCommandArgs & { 'access-key-id'?: string }>,
 ): Promise<void> {
   let access_key_id = argv['access-key-id']
   if (access_key_id === undefined) {
-    const choices = await listCreds(argv.account)
+    const choices = await listCreds(endpointSettingsForArgs(argv), argv.store)
     if (choices.err) {
       process.exitCode = 1
       return
@@ -336,82 +510,469 @@ export async function removeCredCommand(
     access_key_id = answer.id as string
   }
 
-  const result = await removeCred({ account_id: argv.account, access_key_id })
+  const result = await removeCred({ ...endpointSettingsForArgs(argv), access_key_id, store: argv.store })
   if (result.err) {
+    console.error(result.val.message)
     process.exitCode = 1
     return
   }
 }
 
+interface ImportedProfile {
+  endpoint: string
+  access_key_id: string
+  secret_access_key: string
+}
+
+async function readINIFile(p: string): Promise<Result<Record<string, Record<string, string>>, Error>> {
+  try {
+    return Ok(parseINI(await readTextFile(p)))
+  } catch (e) {
+    return Err(new Error(`Trouble parsing ${p}: ${(e as Error).message}`))
+  }
+}
+
+async function loadRcloneProfiles(): Promise<Result<Record<string, ImportedProfile>, Error>> {
+  const rclonePaths = new CandidatePaths('rclone', 'rclone.conf')
+  const rcloneConfigFile = await rclonePaths.findExistingConfig()
+  if (rcloneConfigFile === undefined) {
+    return Err(new Error(`No existing rclone configuration found in ${rclonePaths.candidatePaths.join(', ')}`))
+  }
+
+  const rcloneConfig = await readINIFile(rcloneConfigFile)
+  if (rcloneConfig.err) {
+    return rcloneConfig
+  }
+
+  const r2Profiles: Record<string, ImportedProfile> = {}
+
+  for (const [profileName, profile] of Object.entries(rcloneConfig.val)) {
+    if (isR2URL(profile['endpoint'])) {
+      r2Profiles[profileName] = {
+        endpoint: profile['endpoint'],
+        access_key_id: profile['access_key_id'],
+        secret_access_key: profile['secret_access_key'],
+      }
+    }
+  }
+
+  if (Object.keys(r2Profiles).length === 0) {
+    return Err(new Error(`No Cloudflare R2 profiles found in ${rcloneConfigFile}`))
+  }
+
+  return Ok(r2Profiles)
+}
+
+// The AWS CLI splits a profile across two files. ~/.aws/config names sections `[profile foo]` (except for
+// `[default]`) and holds settings like endpoint_url while ~/.aws/credentials names sections `[foo]` and holds the keys.
+// Either file is allowed to hold any of the values so the credentials file wins when both specify something.
+async function loadAwsProfiles(): Promise<Result<Record<string, ImportedProfile>, Error>> {
+  const awsConfigPaths = new CandidatePaths('aws', 'config', { envOverride: 'AWS_CONFIG_FILE', homeDotFolder: true })
+  const awsCredentialsPaths = new CandidatePaths('aws', 'credentials', {
+    envOverride: 'AWS_SHARED_CREDENTIALS_FILE',
+    homeDotFolder: true,
+  })
+
+  const awsConfigFile = await awsConfigPaths.findExistingConfig()
+  if (awsConfigFile === undefined) {
+    return Err(new Error(`No existing AWS CLI configuration found in ${awsConfigPaths.candidatePaths.join(', ')}`))
+  }
+
+  const awsConfig = await readINIFile(awsConfigFile)
+  if (awsConfig.err) {
+    return awsConfig
+  }
+
+  const awsCredentialsFile = await awsCredentialsPaths.findExistingConfig()
+  const awsCredentials = awsCredentialsFile !== undefined ?
+    await readINIFile(awsCredentialsFile) :
+    Ok<Record<string, Record<string, string>>>({})
+  if (awsCredentials.err) {
+    return awsCredentials
+  }
+
+  const profiles: Record<string, Record<string, string>> = {}
+  for (const [section, settings] of Object.entries(awsConfig.val)) {
+    const name = section.startsWith('profile ') ? section.substring('profile '.length).trim() : section
+    profiles[name] = { ...settings }
+  }
+  for (const [name, settings] of Object.entries(awsCredentials.val)) {
+    profiles[name] = { ...profiles[name], ...settings }
+  }
+
+  const r2Profiles: Record<string, ImportedProfile> = {}
+  for (const [name, profile] of Object.entries(profiles)) {
+    if (!isR2URL(profile['endpoint_url'])) {
+      continue
+    }
+
+    r2Profiles[name] = {
+      endpoint: profile['endpoint_url'],
+      access_key_id: profile['aws_access_key_id'],
+      secret_access_key: profile['aws_secret_access_key'],
+    }
+  }
+
+  if (Object.keys(r2Profiles).length === 0) {
+    return Err(new Error(`No AWS CLI profiles with an R2 endpoint_url found in ${awsConfigFile}`))
+  }
+
+  return Ok(r2Profiles)
+}
+
 export async function importConfig(argv: ArgumentsCamelCase): Promise<void> {
-  const r2ConfigPaths = new CandidatePaths('cloudflare', 'r2.toml')
-  const configFilePath = (await r2ConfigPaths.createInitialConfig()).unwrap()
-  const existingConfig = TOML.parse(await readTextFile(configFilePath))
+  const r2Config = await loadR2Config()
+  if (r2Config.err) {
+    console.error(r2Config.val.message)
+    process.exitCode = 1
+    return
+  }
 
   let importSource
-  let numConfigurationsImported = 0
+  let r2Profiles: Result<Record<string, ImportedProfile>, Error>
 
   if (argv['rclone']) {
     importSource = 'rclone'
+    r2Profiles = await loadRcloneProfiles()
+  } else if (argv['aws']) {
+    importSource = 'AWS CLI'
+    r2Profiles = await loadAwsProfiles()
+  } else {
+    console.error('No import source provided')
+    process.exitCode = 1
+    return
+  }
+
+  if (r2Profiles.err) {
+    console.error(r2Profiles.val.message)
+    process.exitCode = 1
+    return
+  }
+
+  const store = await chooseCredentialStore(argv['store'] as string | undefined)
+  if (store.err) {
+    console.error(store.val.message)
+    process.exitCode = 1
+    return
+  }
+
+  const failures: string[] = []
+  let numConfigurationsImported = 0
+
+  for (const [name, details] of Object.entries(r2Profiles.val)) {
+    console.log(`Importing ${importSource} configuration ${name}`)
+    if (!details.access_key_id || !details.secret_access_key) {
+      console.error(`Skipping ${name}: missing access key id or secret access key`)
+      failures.push(name)
+      continue
+    }
+
+    const settings = endpointSettingsForR2URL(details.endpoint)
+    const saved = await saveCreds({
+      ...settings,
+      access_key_id: details.access_key_id,
+      secret_access_key: details.secret_access_key,
+    }, store.val)
+    if (saved.err) {
+      console.error(`Failed to import ${name}: ${saved.val.message}`)
+      failures.push(name)
+      continue
+    }
+
+    r2Config.val.config.profiles[name] = profileForSettings(settings, details.access_key_id, store.val.name)
+    numConfigurationsImported++
+  }
+
+  if (numConfigurationsImported > 0) {
+    await saveR2Config(r2Config.val)
+  }
+
+  console.info(`Imported ${numConfigurationsImported} ${importSource} configurations into ${r2Config.val.path}`)
+  if (failures.length > 0) {
+    console.error(`Failed to import ${failures.length} configurations: ${failures.join(', ')}`)
+    process.exitCode = 1
+  }
+}
+
+// Splices sections into INI text without disturbing anything else in the file (comments, ordering, other sections).
+// Sections that already exist are only replaced when overwrite is set, otherwise they're reported back as skipped.
+function mergeINISections(
+  text: string,
+  sections: Record<string, Record<string, string>>,
+  overwrite: boolean,
+): { text: string; skipped: string[] } {
+  const lines = text.split(/\r?\n/)
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+    lines.pop()
+  }
+  const skipped: string[] = []
+
+  for (const [name, values] of Object.entries(sections)) {
+    const block = [`[${name}]`, ...Object.entries(values).map(([k, v]) => `${k} = ${v}`)]
+
+    const start = lines.findIndex((line) => line.trim() === `[${name}]`)
+    if (start === -1) {
+      if (lines.length > 0) {
+        lines.push('')
+      }
+      lines.push(...block)
+      continue
+    }
+
+    if (!overwrite) {
+      skipped.push(name)
+      continue
+    }
+
+    let end = lines.findIndex((line, idx) => idx > start && line.trim().startsWith('['))
+    if (end === -1) {
+      end = lines.length
+    }
+    lines.splice(start, end - start, ...block, ...(end < lines.length ? [''] : []))
+  }
+
+  return { text: lines.join('\n') + '\n', skipped }
+}
 
-    const rclonePaths = new CandidatePaths('rclone', 'rclone.conf')
-    const rcloneConfigFile = await rclonePaths.findExistingConfig()
-    if (rcloneConfigFile === undefined) {
-      console.error(`No existing rclone configuration found in ${rclonePaths.candidatePaths.join(', ')}`)
+async function mergeIntoINIFile(
+  candidates: CandidatePaths,
+  sections: Record<string, Record<string, string>>,
+  overwrite: boolean,
+): Promise<Result<{ path: string; skipped: string[] }, Error>> {
+  const target = await candidates.findExistingConfig() ?? candidates.preferredPath
+  if (target === undefined) {
+    return Err(new Error(`Unable to figure out where to write to out of ${candidates.candidatePaths.join(', ')}`))
+  }
+
+  let existing = ''
+  try {
+    existing = await readTextFile(target)
+  } catch (e) {
+    if (Object.prototype.hasOwnProperty.call(e, 'code') && (e as NodeJS.ErrnoException).code === 'ENOENT') {
+      await new Promise<void>((resolve, reject) =>
+        fs.mkdir(path.dirname(target), { recursive: true }, (err) => err ? reject(err) : resolve())
+      )
+    } else {
+      return Err(e as Error)
+    }
+  }
+
+  const merged = mergeINISections(existing, sections, overwrite)
+  for (const name of merged.skipped) {
+    console.warn(`Not touching existing section [${name}] in ${target} (use --overwrite to replace it)`)
+  }
+
+  await writeTextFile(target, merged.text, 0o600)
+  return Ok({ path: target, skipped: merged.skipped })
+}
+
+function rcloneSection(config: Config): Record<string, string> {
+  return {
+    type: 's3',
+    provider: isR2URL(config.endpoint) ? 'Cloudflare' : 'Other',
+    access_key_id: config.access_key_id,
+    secret_access_key: config.secret_access_key,
+    region: 'auto',
+    endpoint: config.endpoint,
+  }
+}
+
+function awsConfigSectionName(profile: string): string {
+  return profile === 'default' ? profile : `profile ${profile}`
+}
+
+export async function exportConfigCommand(
+  argv: ArgumentsCamelCase<
+    { format: 'rclone' | 'aws' | 'env'; profile?: string; write?: boolean; overwrite?: boolean }
+  >,
+): Promise<void> {
+  const r2Config = await loadR2Config()
+  if (r2Config.err) {
+    console.error(r2Config.val.message)
+    process.exitCode = 1
+    return
+  }
+
+  const names = argv.profile !== undefined ? [argv.profile] : Object.keys(r2Config.val.config.profiles)
+  if (names.length === 0) {
+    console.error(`No profiles found in ${r2Config.val.path}`)
+    process.exitCode = 1
+    return
+  }
+
+  if (argv.format === 'env' && names.length > 1) {
+    console.error(`More than one profile found in ${r2Config.val.path}. Pick one with --profile.`)
+    process.exitCode = 1
+    return
+  }
+
+  const configs: Config[] = []
+  for (const name of names) {
+    const config = await retrieveConfig(name)
+    if (config.err) {
+      console.error(`Unable to export ${name}: ${config.val.message}`)
       process.exitCode = 1
       return
     }
+    configs.push(config.val)
+  }
 
-    let rcloneConfig = await (async (): Promise<Record<string, Record<string, string>> | undefined> => {
-      try {
-        return parseINI(await readTextFile(rcloneConfigFile))
-      } catch (e) {
-        console.error('Trouble parsing rclone config file', rcloneConfigFile, e)
+  switch (argv.format) {
+    case 'env': {
+      const [config] = configs
+      console.log(`export R2_ACCOUNT_ID=${config.account_id}`)
+      console.log(`export R2_ACCESS_KEY_ID=${config.access_key_id}`)
+      console.log(`export R2_SECRET_ACCESS_KEY=${config.secret_access_key}`)
+      return
+    }
+    case 'rclone': {
+      const sections = Object.fromEntries(configs.map((config) => [config.profile, rcloneSection(config)]))
+      if (!argv.write) {
+        process.stdout.write(mergeINISections('', sections, false).text)
+        return
+      }
+
+      const written = await mergeIntoINIFile(
+        new CandidatePaths('rclone', 'rclone.conf', { envOverride: 'RCLONE_CONFIG' }),
+        sections,
+        argv.overwrite ?? false,
+      )
+      if (written.err) {
+        console.error(written.val.message)
         process.exitCode = 1
-        return undefined
+        return
       }
-    })()
-    if (rcloneConfig === undefined) {
+      console.info(`Exported ${configs.length - written.val.skipped.length} profiles to ${written.val.path}`)
       return
     }
+    case 'aws': {
+      const configSections = Object.fromEntries(
+        configs.map((
+          config,
+        ) => [awsConfigSectionName(config.profile), { region: 'auto', endpoint_url: config.endpoint }]),
+      )
+      const credentialSections = Object.fromEntries(
+        configs.map((config) => [
+          config.profile,
+          {
+            aws_access_key_id: config.access_key_id,
+            aws_secret_access_key: config.secret_access_key,
+          },
+        ]),
+      )
 
-    const r2Profiles: Record<string, Record<string, string>> = {}
+      if (!argv.write) {
+        console.log('# ~/.aws/config')
+        process.stdout.write(mergeINISections('', configSections, false).text)
+        console.log()
+        console.log('# ~/.aws/credentials')
+        process.stdout.write(mergeINISections('', credentialSections, false).text)
+        return
+      }
 
-    for (const [profileName, profile] of Object.entries(rcloneConfig)) {
-      if (profile['endpoint'].endsWith('.r2.cloudflarestorage.com')) {
-        r2Profiles[profileName] = profile
+      const writtenConfig = await mergeIntoINIFile(
+        new CandidatePaths('aws', 'config', { envOverride: 'AWS_CONFIG_FILE', homeDotFolder: true }),
+        configSections,
+        argv.overwrite ?? false,
+      )
+      if (writtenConfig.err) {
+        console.error(writtenConfig.val.message)
+        process.exitCode = 1
+        return
       }
-    }
 
-    switch (Object.keys(r2Profiles).length) {
-      case 0:
-        console.error('No Cloudflare R2 profiles found in', rcloneConfigFile)
+      const writtenCredentials = await mergeIntoINIFile(
+        new CandidatePaths('aws', 'credentials', { envOverride: 'AWS_SHARED_CREDENTIALS_FILE', homeDotFolder: true }),
+        credentialSections,
+        argv.overwrite ?? false,
+      )
+      if (writtenCredentials.err) {
+        console.error(writtenCredentials.val.message)
         process.exitCode = 1
         return
-      default:
-        numConfigurationsImported = Object.keys(r2Profiles).length
-        for (const [name, details] of Object.entries(r2Profiles)) {
-          console.log(`Importing RClone configuration ${name}`)
-          await saveCreds({
-            account_id: accountForR2URL(details['endpoint']),
-            access_key_id: details['access_key_id'],
-            secret_access_key: details['secret_access_key'],
-          })
-          existingConfig[name] = {
-            account_id: accountForR2URL(details['endpoint']),
-            access_key_id: details['access_key_id'],
-          }
-        }
+      }
+      // Either file can already have a section for a profile, so what was written is reported for each.
+      const exportedConfigs = configs.length - writtenConfig.val.skipped.length
+      const exportedCredentials = configs.length - writtenCredentials.val.skipped.length
+      console.info(`Exported ${exportedConfigs} profiles to ${writtenConfig.val.path}`)
+      console.info(`Exported ${exportedCredentials} profiles to ${writtenCredentials.val.path}`)
+      return
     }
-  } else {
-    console.error('No import source provided')
+  }
+}
+
+export async function rotateCredsCommand(argv: ArgumentsCamelCase<{ profile: string }>): Promise<void> {
+  const r2Config = await loadR2Config()
+  if (r2Config.err) {
+    console.error(r2Config.val.message)
     process.exitCode = 1
     return
   }
 
-  await writeTextFile(configFilePath, TOML.stringify(existingConfig))
+  const oldInfo = r2Config.val.config.profiles[argv.profile]
+  if (oldInfo === undefined) {
+    console.error(`Profile '${argv.profile}' not found in ${r2Config.val.path}`)
+    process.exitCode = 1
+    return
+  }
+
+  const storeName = oldInfo.store ?? 'keychain'
+  const store = await openCredentialStore(storeName, true)
+  if (store.err) {
+    console.error(store.val.message)
+    process.exitCode = 1
+    return
+  }
+
+  console.info(`Rotating token ${oldInfo.access_key_id} for profile ${argv.profile}`)
+  console.info(`Tokens can be generated at https://dash.cloudflare.com/${oldInfo.account}/r2/api-tokens`)
 
-  console.info(`Imported ${numConfigurationsImported} ${importSource} configurations into ${configFilePath}`)
+  const prompt = inquirer.createPromptModule()
+  const { access_key_id, secret_access_key } = await prompt([{
+    name: 'access_key_id',
+    message: 'What is the "Access Key ID" of your new token?',
+  }, { name: 'secret_access_key', message: 'What is the "Secret Access Key" of your new token?' }])
+
+  if (access_key_id === oldInfo.access_key_id) {
+    console.error('The new token has the same access key id as the one being rotated out')
+    process.exitCode = 1
+    return
+  }
+
+  const settings = endpointSettingsForProfile(oldInfo)
+  const saved = await saveCreds({ ...settings, access_key_id, secret_access_key }, store.val, oldInfo.buckets)
+  if (saved.err) {
+    console.error(`Leaving profile ${argv.profile} untouched: ${saved.val.message}`)
+    process.exitCode = 1
+    return
+  }
+
+  r2Config.val.config.profiles[argv.profile] = { ...oldInfo, access_key_id }
+  await saveR2Config(r2Config.val)
+  console.info(`Profile ${argv.profile} now uses token ${access_key_id}`)
+
+  const oldService = profileEndpoint(settings)
+  const stillReferenced = Object.entries(r2Config.val.config.profiles).filter(([, info]) =>
+    info.access_key_id === oldInfo.access_key_id
+  )
+  for (const [profile] of stillReferenced) {
+    console.warn(`Profile ${profile} still references the old token ${oldInfo.access_key_id}`)
+  }
+
+  // Deleting the old secret would break any profile that shares the same entry in the store.
+  const sharingSecret = stillReferenced.filter(([, info]) =>
+    (info.store ?? 'keychain') === storeName && profileEndpoint(endpointSettingsForProfile(info)) === oldService
+  )
+  if (sharingSecret.length > 0) {
+    console.warn(`Keeping the old token's secret since ${sharingSecret.map(([profile]) => profile).join(', ')} use it`)
+    return
+  }
+
+  const removal = await removeCred({ ...settings, access_key_id: oldInfo.access_key_id, store: storeName })
+  if (removal.err) {
+    console.error(`Failed to remove the old token's secret: ${removal.val.message}`)
+    process.exitCode = 1
+  }
 }
 
 export async function initConfigCommand(argv: ArgumentsCamelCase): Promise<void> {
@@ -419,6 +980,11 @@ export async function initConfigCommand(argv: ArgumentsCamelCase): Promise<void>
   // TODO: Use wrangler creds from ~/.wrangler/config/default.toml to communicate with the API.
   const name = argv['name'] as string
   const account_id = argv['account'] as string
+  const settings: EndpointSettings = {
+    account_id,
+    jurisdiction: argv['jurisdiction'] as Jurisdiction | undefined,
+    endpoint: argv['endpoint'] as string | undefined,
+  }
 
   console.info(`Tokens can be generated at https://dash.cloudflare.com/${account_id}/r2/api-tokens`)
 
@@ -428,67 +994,214 @@ export async function initConfigCommand(argv: ArgumentsCamelCase): Promise<void>
     message: 'What is the "Access Key ID" of your token?',
   }, { name: 'secret_access_key', message: 'What is the "Secret Access Key" of your token?' }])
 
-  const r2ConfigPaths = new CandidatePaths('cloudflare', 'r2.toml')
-  const configFilePath = (await r2ConfigPaths.createInitialConfig()).unwrap()
-  const existingConfig = TOML.parse(await readTextFile(configFilePath))
+  const r2Config = await loadR2Config()
+  if (r2Config.err) {
+    console.error(r2Config.val.message)
+    process.exitCode = 1
+    return
+  }
+
+  const store = await chooseCredentialStore(argv['store'] as string | undefined)
+  if (store.err) {
+    console.error(store.val.message)
+    process.exitCode = 1
+    return
+  }
 
-  await saveCreds({ account_id, access_key_id, secret_access_key })
+  const buckets = argv['buckets'] as string[] | undefined
+  const scope = buckets !== undefined && buckets.length > 0 ? buckets : undefined
+  const saved = await saveCreds({ ...settings, access_key_id, secret_access_key }, store.val, scope)
+  if (saved.err) {
+    console.error(saved.val.message)
+    process.exitCode = 1
+    return
+  }
 
-  existingConfig[name] = { account: account_id, access_key_id: access_key_id }
+  r2Config.val.config.profiles[name] = profileForSettings(settings, access_key_id, store.val.name)
+  if (scope !== undefined) {
+    r2Config.val.config.profiles[name].buckets = scope
+  }
 
-  await writeTextFile(configFilePath, TOML.stringify(existingConfig))
+  await saveR2Config(r2Config.val)
 
-  console.info(`Added configuration ${name} to ${configFilePath}`)
+  console.info(`Added configuration ${name} to ${r2Config.val.path}`)
 }
 
 export async function listConfigsCommand(): Promise<void> {
-  const r2ConfigPaths = new CandidatePaths('cloudflare', 'r2.toml')
-  const configFilePath = (await r2ConfigPaths.createInitialConfig()).unwrap()
-  console.log(await readTextFile(configFilePath))
+  const r2Config = await loadR2Config()
+  if (r2Config.err) {
+    console.error(r2Config.val.message)
+    process.exitCode = 1
+    return
+  }
+
+  console.log(await readTextFile(r2Config.val.path))
 }
 
-export async function retrieveOnlyConfig(): Promise<Result<Config, Error>> {
-  const r2ConfigPaths = new CandidatePaths('cloudflare', 'r2.toml')
-  const configFilePath = (await r2ConfigPaths.createInitialConfig()).unwrap()
-  const existingConfig = TOML.parse(await readTextFile(configFilePath)) as Record<
-    string,
-    { account: string; access_key_id: string }
-  >
+interface ResolvedProfile {
+  name: string
+  source: string
+}
+
+const profileResolutionOrder = [
+  '--account',
+  'the R2_PROFILE environment variable',
+  'a .r2profile file in the current directory or any parent',
+  'the default set with `config use` in r2.toml',
+  'the only profile in r2.toml',
+  'R2_ACCOUNT_ID/R2_ACCESS_KEY_ID/R2_SECRET_ACCESS_KEY when r2.toml has no profiles',
+  'an interactive prompt (only when stdin is a terminal)',
+]
+
+async function findProjectProfile(): Promise<ResolvedProfile | undefined> {
+  let dir = process.cwd()
+  while (true) {
+    const candidate = path.join(dir, '.r2profile')
+    try {
+      const name = (await readTextFile(candidate)).trim()
+      if (name !== '') {
+        return { name, source: candidate }
+      }
+    } catch (e) {
+      // Not there (or not readable) - keep walking up.
+    }
+
+    const parent = path.dirname(dir)
+    if (parent === dir) {
+      return undefined
+    }
+    dir = parent
+  }
+}
+
+// Steps 2-5 of profileResolutionOrder. The remaining steps need more context than a profile name.
+async function resolveProfile(config: R2ConfigFile): Promise<ResolvedProfile | undefined> {
+  const fromEnv = process.env['R2_PROFILE']
+  if (fromEnv) {
+    return { name: fromEnv, source: 'R2_PROFILE' }
+  }
+
+  const fromProject = await findProjectProfile()
+  if (fromProject !== undefined) {
+    return fromProject
+  }
+
+  if (config.default_profile !== undefined) {
+    return { name: config.default_profile, source: 'default_profile in r2.toml' }
+  }
+
+  const profiles = Object.keys(config.profiles)
+  if (profiles.length === 1) {
+    return { name: profiles[0], source: 'only profile in r2.toml' }
+  }
+
+  return undefined
+}
+
+export async function retrieveOnlyConfig(bucket?: string): Promise<Result<Config, Error>> {
+  const r2Config = await loadR2Config()
+  if (r2Config.err) {
+    return r2Config
+  }
+
+  const resolved = await resolveProfile(r2Config.val.config)
+  if (resolved !== undefined) {
+    const config = await retrieveConfig(resolved.name, bucket)
+    if (config.err) {
+      return Err(new Error(`${config.val.message} (selected by ${resolved.source})`))
+    }
+    return config
+  }
 
-  let configIdx: number
-  const configs = Object.entries(existingConfig)
+  const configs = Object.entries(r2Config.val.config.profiles)
 
   if (configs.length === 0) {
-    return Err(new Error(`No profiles found in ${configFilePath}`))
+    const fromEnv = EnvironmentStore.fromEnvironment()
+    if (fromEnv !== undefined) {
+      return Ok(configForEnvironment(fromEnv))
+    }
+    return Err(new Error(`No profiles found in ${r2Config.val.path}`))
   }
 
-  if (configs.length === 1) {
-    configIdx = 0
-  } else {
-    const prompt = inquirer.createPromptModule()
-    const choices = configs.map(([profile, info]) => `${info.account}: ${profile}`)
-    const selected = await prompt([{
-      name: 'choice',
-      message: 'Found more than one profile. Which would you like to use?',
-      type: 'list',
-      choices,
-    }])
-    configIdx = choices.indexOf(selected['choice'])
+  if (!process.stdin.isTTY) {
+    return Err(
+      new Error(
+        `Found more than one profile in ${r2Config.val.path}. Pick one with --account, R2_PROFILE, a .r2profile file or \`config use\`.`,
+      ),
+    )
   }
 
-  const [profile, info] = configs[configIdx]
-  const secretAccessKey = await retrieveCreds({ account_id: info.account, access_key_id: info.access_key_id })
+  const prompt = inquirer.createPromptModule()
+  const choices = configs.map(([profile, info]) => `${info.account}: ${profile}`)
+  const selected = await prompt([{
+    name: 'choice',
+    message: 'Found more than one profile. Which would you like to use?',
+    type: 'list',
+    choices,
+  }])
+  const [profile, info] = configs[choices.indexOf(selected['choice'])]
+
+  const secretAccessKey = await retrieveCreds(credentialSettingsForProfile(info))
   if (secretAccessKey.err) {
     console.warn(`Profile ${profile} for account ${info.account} appears to be missing credentials.`)
     return Err(new Error())
   }
 
-  return Ok({
-    profile,
-    account_id: info.account,
-    access_key_id: info.access_key_id,
-    secret_access_key: secretAccessKey.val,
-  })
+  return Ok(configForProfile(profile, info, secretAccessKey.val))
+}
+
+export async function useProfileCommand(
+  argv: ArgumentsCamelCase<{ profile?: string; unset?: boolean }>,
+): Promise<void> {
+  const r2Config = await loadR2Config()
+  if (r2Config.err) {
+    console.error(r2Config.val.message)
+    process.exitCode = 1
+    return
+  }
+
+  if (argv.unset) {
+    delete r2Config.val.config.default_profile
+    await saveR2Config(r2Config.val)
+    console.info(`Cleared the default profile in ${r2Config.val.path}`)
+    return
+  }
+
+  if (argv.profile === undefined || !(argv.profile in r2Config.val.config.profiles)) {
+    console.error(`Profile '${argv.profile}' not found in ${r2Config.val.path}`)
+    process.exitCode = 1
+    return
+  }
+
+  r2Config.val.config.default_profile = argv.profile
+  await saveR2Config(r2Config.val)
+  console.info(`Default profile is now ${argv.profile}`)
+}
+
+export async function currentProfileCommand(): Promise<void> {
+  const r2Config = await loadR2Config()
+  if (r2Config.err) {
+    console.error(r2Config.val.message)
+    process.exitCode = 1
+    return
+  }
+
+  const resolved = await resolveProfile(r2Config.val.config)
+  if (resolved !== undefined) {
+    console.info(`${resolved.name} (from ${resolved.source})`)
+  } else if (Object.keys(r2Config.val.config.profiles).length !== 0) {
+    console.info(`No profile selected. You'll be prompted to pick one when stdin is a terminal.`)
+    process.exitCode = 1
+  } else if (EnvironmentStore.fromEnvironment() !== undefined) {
+    console.info(`env (from R2_ACCOUNT_ID/R2_ACCESS_KEY_ID/R2_SECRET_ACCESS_KEY)`)
+  } else {
+    console.info(`No profiles found in ${r2Config.val.path}`)
+    process.exitCode = 1
+  }
+
+  console.info()
+  console.info('Profiles are picked from the first of:')
+  profileResolutionOrder.forEach((step, idx) => console.info(`  ${idx + 1}. ${step}`))
 }
 
 export async function removeConfigCommand(argv: ArgumentsCamelCase<{ name: string }>): Promise<void> {
@@ -498,59 +1211,232 @@ export async function removeConfigCommand(argv: ArgumentsCamelCase<{ name: strin
     return
   }
 
-  const r2ConfigPaths = new CandidatePaths('cloudflare', 'r2.toml')
-  const configFilePath = (await r2ConfigPaths.createInitialConfig()).unwrap()
-  const existingConfig = TOML.parse(await readTextFile(configFilePath)) as Record<
-    string,
-    { account: string; access_key_id: string }
-  >
-  delete existingConfig[config.val.profile]
+  const r2Config = await loadR2Config()
+  if (r2Config.err) {
+    console.error(r2Config.val.message)
+    process.exitCode = 1
+    return
+  }
+  delete r2Config.val.config.profiles[config.val.profile]
+  if (r2Config.val.config.default_profile === config.val.profile) {
+    delete r2Config.val.config.default_profile
+  }
 
   const removal = await removeCred(config.val)
   if (removal.err) {
     process.exitCode = 1
-    console.error(`Failed to remove creds for token ${config.val.access_key_id}`)
+    console.error(`Failed to remove creds for token ${config.val.access_key_id}: ${removal.val.message}`)
     return
   }
 
-  await writeTextFile(configFilePath, TOML.stringify(existingConfig))
+  await saveR2Config(r2Config.val)
 }
 
-export async function retrieveConfig(accountOrProfile: string): Promise<Result<Config, Error>> {
-  const r2ConfigPaths = new CandidatePaths('cloudflare', 'r2.toml')
-  const configFilePath = (await r2ConfigPaths.createInitialConfig()).unwrap()
-  const existingConfig = TOML.parse(await readTextFile(configFilePath)) as Record<
-    string,
-    { account: string; access_key_id: string }
-  >
+interface AccountCandidates {
+  // Profiles that may be used, best first.
+  usable: [string, ProfileInfo][]
+  // Profiles for the account whose bucket scope doesn't cover the bucket.
+  excluded: [string, ProfileInfo][]
+}
+
+// When several tokens are saved for an account, tokens scoped to the bucket being worked on are preferred over
+// unscoped ones. Without a bucket (e.g. list-buckets) unscoped tokens are preferred since they can see everything.
+function candidatesForAccount(config: R2ConfigFile, account: string, bucket?: string): AccountCandidates {
+  const forAccount = Object.entries(config.profiles).filter(([, info]) => info.account === account)
+  const scoped = forAccount.filter(([, info]) => info.buckets !== undefined)
+  const unscoped = forAccount.filter(([, info]) => info.buckets === undefined)
+
+  if (bucket === undefined) {
+    return { usable: [...unscoped, ...scoped], excluded: [] }
+  }
+
+  return {
+    usable: [...scoped.filter(([, info]) => profileAllowsBucket(info, bucket)), ...unscoped],
+    excluded: scoped.filter(([, info]) => !profileAllowsBucket(info, bucket)),
+  }
+}
+
+function describeScope(info: ProfileInfo): string {
+  return info.buckets === undefined ? 'all buckets' : `buckets ${info.buckets.join(', ')}`
+}
+
+export async function retrieveConfig(accountOrProfile: string, bucket?: string): Promise<Result<Config, Error>> {
+  const r2Config = await loadR2Config()
+  if (r2Config.err) {
+    return r2Config
+  }
+  const existingConfig = r2Config.val.config.profiles
 
   if (accountOrProfile in existingConfig) {
-    const { account: account_id, access_key_id } = existingConfig[accountOrProfile]
-    const secretAccessKey = await retrieveCreds({ account_id, access_key_id })
+    const info = existingConfig[accountOrProfile]
+    const secretAccessKey = await retrieveCreds(credentialSettingsForProfile(info))
     if (secretAccessKey.err) {
       return secretAccessKey
     }
 
-    return Ok({ profile: accountOrProfile, account_id, access_key_id, secret_access_key: secretAccessKey.val })
+    return Ok(configForProfile(accountOrProfile, info, secretAccessKey.val))
   } else {
-    for (const [profile, info] of Object.entries(existingConfig)) {
-      if (info.account === accountOrProfile) {
-        const secretAccessKey = await retrieveCreds({ account_id: info.account, access_key_id: info.access_key_id })
-        if (secretAccessKey.err) {
-          console.warn(`Profile ${profile} matches account ${accountOrProfile} appears to be missing credentials.`)
-          continue
-        }
-
-        return Ok({
-          profile: accountOrProfile,
-          account_id: info.account,
-          access_key_id: info.access_key_id,
-          secret_access_key: secretAccessKey.val,
-        })
+    const candidates = candidatesForAccount(r2Config.val.config, accountOrProfile, bucket)
+    for (const [profile, info] of candidates.usable) {
+      const secretAccessKey = await retrieveCreds(credentialSettingsForProfile(info))
+      if (secretAccessKey.err) {
+        console.warn(`Profile ${profile} matches account ${accountOrProfile} appears to be missing credentials.`)
+        continue
       }
+
+      return Ok(configForProfile(profile, info, secretAccessKey.val))
+    }
+
+    if (candidates.usable.length === 0 && candidates.excluded.length !== 0) {
+      return Err(
+        new Error(`None of the tokens for account ${accountOrProfile} are scoped to bucket ${bucket} (${
+          candidates
+            .excluded
+            .map(([profile, info]) => `${profile}: ${describeScope(info)}`)
+            .join('; ')
+        })`),
+      )
     }
   }
 
+  const fromEnv = EnvironmentStore.fromEnvironment()
+  if (fromEnv !== undefined && fromEnv.account_id === accountOrProfile) {
+    return Ok(configForEnvironment(fromEnv))
+  }
+
   const type = accountOrProfile.match(/^[0-9A-Fa-f]{32}$/) ? 'Account' : 'Profile'
-  return Err(new Error(`${type} '${accountOrProfile}' not found in ${configFilePath}`))
+  return Err(new Error(`${type} '${accountOrProfile}' not found in ${r2Config.val.path}`))
+}
+
+export async function whichProfileCommand(
+  argv: ArgumentsCamelCase<{ bucket: string; account?: string }>,
+): Promise<void> {
+  const r2Config = await loadR2Config()
+  if (r2Config.err) {
+    console.error(r2Config.val.message)
+    process.exitCode = 1
+    return
+  }
+  const { config } = r2Config.val
+
+  let accountOrProfile = argv.account
+  if (accountOrProfile === undefined) {
+    const resolved = await resolveProfile(config)
+    if (resolved === undefined) {
+      console.info(`Nothing picks a profile without --account. Run \`config current\` for details.`)
+      process.exitCode = 1
+      return
+    }
+    console.info(`${resolved.name} is selected by ${resolved.source}`)
+    accountOrProfile = resolved.name
+  }
+
+  if (accountOrProfile in config.profiles) {
+    const info = config.profiles[accountOrProfile]
+    const allowed = profileAllowsBucket(info, argv.bucket)
+    console.info(
+      `Profile ${accountOrProfile} is used as named (its token is scoped to ${describeScope(info)}${
+        allowed ? '' : `, which doesn't include ${argv.bucket}`
+      })`,
+    )
+    if (!allowed) {
+      process.exitCode = 1
+    }
+    return
+  }
+
+  const candidates = candidatesForAccount(config, accountOrProfile, argv.bucket)
+  if (candidates.usable.length === 0 && candidates.excluded.length === 0) {
+    console.error(`No profiles found for account ${accountOrProfile}`)
+    process.exitCode = 1
+    return
+  }
+
+  console.info(`Profiles for account ${accountOrProfile}, in the order they're tried for bucket ${argv.bucket}:`)
+  candidates.usable.forEach(([profile, info], idx) => {
+    const marker = idx === 0 ? colors.green('✓') : ' '
+    const reason = info.buckets === undefined ? 'token has access to all buckets' : 'token is scoped to this bucket'
+    console.info(`  ${marker} ${profile} (${describeScope(info)}): ${reason}`)
+  })
+  for (const [profile, info] of candidates.excluded) {
+    console.info(`  ${colors.red('✗')} ${profile} (${describeScope(info)}): token isn't scoped to ${argv.bucket}`)
+  }
+
+  if (candidates.usable.length === 0) {
+    process.exitCode = 1
+  }
+}
+
+export async function doctorCommand(): Promise<void> {
+  let problems = 0
+  const pass = (message: string) => console.info(`  ${colors.green('✓')} ${message}`)
+  const fail = (message: string) => {
+    problems++
+    console.info(`  ${colors.red('✗')} ${message}`)
+  }
+
+  const r2Config = await loadR2Config()
+  if (r2Config.err) {
+    console.info(`${colors.red('✗')} ${r2Config.val.message}`)
+    process.exitCode = 1
+    return
+  }
+
+  const { path: configFilePath, config } = r2Config.val
+  console.info(`${colors.green('✓')} ${configFilePath} is a valid version ${config.version} configuration`)
+
+  const profilesByToken = new Map<string, string[]>()
+
+  for (const [profile, info] of Object.entries(config.profiles)) {
+    const store = info.store ?? 'keychain'
+    console.info(
+      `Profile ${colors.bold(profile)} (account ${info.account}, token ${info.access_key_id}, ${store} store)`,
+    )
+
+    const tokenKey = `${info.account}/${info.access_key_id}`
+    profilesByToken.set(tokenKey, [...profilesByToken.get(tokenKey) ?? [], profile])
+
+    const settings = endpointSettingsForProfile(info)
+    if (settings.endpoint !== undefined) {
+      pass(`using custom endpoint ${settings.endpoint}`)
+    } else if (info.account.match(/^[0-9A-Fa-f]{32}$/)) {
+      pass('account id is well formed')
+    } else {
+      fail(`account id '${info.account}' doesn't look like a Cloudflare account id`)
+    }
+
+    const secretAccessKey = await retrieveCreds(credentialSettingsForProfile(info))
+    if (secretAccessKey.err) {
+      fail(`secret is missing from the ${store} store: ${secretAccessKey.val.message}`)
+      continue
+    }
+    pass(`secret found in the ${store} store`)
+
+    const validated = await validateCreds({
+      ...settings,
+      access_key_id: info.access_key_id,
+      secret_access_key: secretAccessKey.val,
+    }, info.buckets)
+    if (validated.err) {
+      fail(validated.val.message)
+    } else if (validated.val === undefined) {
+      console.info(`  ${colors.yellow('?')} credentials can't be checked since the token is only scoped to patterns`)
+    } else {
+      pass(`credentials are accepted by R2 (${validated.val})`)
+    }
+  }
+
+  for (const [tokenKey, profiles] of profilesByToken) {
+    if (profiles.length > 1) {
+      const [account, access_key_id] = tokenKey.split('/')
+      fail(`profiles ${profiles.join(', ')} all use token ${access_key_id} for account ${account}`)
+    }
+  }
+
+  if (problems > 0) {
+    console.info(`Found ${problems} problem${problems === 1 ? '' : 's'}`)
+    process.exitCode = 1
+  } else {
+    console.info('No problems found')
+  }
 }
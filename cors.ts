@@ -0,0 +1,187 @@
+import * as S3 from '@aws-sdk/client-s3'
+import { Err, Ok, Result } from 'ts-results'
+import { globToRegExp, readStructuredFile } from './util'
+
+// The methods R2 accepts in AllowedMethods.
+const corsMethods = ['GET', 'PUT', 'POST', 'DELETE', 'HEAD']
+
+// R2 rejects configurations with more rules than this.
+const maxCorsRules = 100
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && (value as unknown[]).every((v) => typeof v === 'string' && v !== '')
+}
+
+function wildcardCount(value: string): number {
+  return value.split('*').length - 1
+}
+
+function validateCorsRule(idx: number, value: unknown, problems: string[]): S3.CORSRule | undefined {
+  const name = `CORSRules[${idx}]`
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    problems.push(`${name} must be a table`)
+    return undefined
+  }
+
+  const { ID, AllowedOrigins, AllowedMethods, AllowedHeaders, ExposeHeaders, MaxAgeSeconds, ...unknownKeys } =
+    value as Record<string, unknown>
+  const before = problems.length
+
+  if (ID !== undefined && (typeof ID !== 'string' || ID.length > 255)) {
+    problems.push(`${name}.ID must be a string of at most 255 characters`)
+  }
+  if (!isStringList(AllowedOrigins) || AllowedOrigins.length === 0) {
+    problems.push(`${name}.AllowedOrigins must be a non-empty list of origins`)
+  } else {
+    for (const origin of AllowedOrigins.filter((origin) => wildcardCount(origin) > 1)) {
+      problems.push(`${name}.AllowedOrigins can only contain one * wildcard per origin (${origin})`)
+    }
+  }
+  if (!isStringList(AllowedMethods) || AllowedMethods.length === 0) {
+    problems.push(`${name}.AllowedMethods must be a non-empty list of methods`)
+  } else {
+    for (const method of AllowedMethods.filter((method) => !corsMethods.includes(method))) {
+      problems.push(`${name}.AllowedMethods has ${method} but must only contain ${corsMethods.join(', ')}`)
+    }
+  }
+  if (AllowedHeaders !== undefined) {
+    if (!isStringList(AllowedHeaders)) {
+      problems.push(`${name}.AllowedHeaders must be a list of header names`)
+    } else {
+      for (const header of AllowedHeaders.filter((header) => wildcardCount(header) > 1)) {
+        problems.push(`${name}.AllowedHeaders can only contain one * wildcard per header (${header})`)
+      }
+    }
+  }
+  if (ExposeHeaders !== undefined) {
+    if (!isStringList(ExposeHeaders)) {
+      problems.push(`${name}.ExposeHeaders must be a list of header names`)
+    } else if (ExposeHeaders.some((header) => header.includes('*'))) {
+      problems.push(`${name}.ExposeHeaders can't contain wildcards`)
+    }
+  }
+  if (MaxAgeSeconds !== undefined && (!Number.isInteger(MaxAgeSeconds) || (MaxAgeSeconds as number) < 0)) {
+    problems.push(`${name}.MaxAgeSeconds must be a non-negative integer`)
+  }
+  for (const key of Object.keys(unknownKeys)) {
+    problems.push(`${name}.${key} is not a recognized setting`)
+  }
+
+  if (problems.length !== before) {
+    return undefined
+  }
+
+  return {
+    ...(ID !== undefined && { ID: ID as string }),
+    AllowedOrigins: AllowedOrigins as string[],
+    AllowedMethods: AllowedMethods as string[],
+    ...(AllowedHeaders !== undefined && { AllowedHeaders: AllowedHeaders as string[] }),
+    ...(ExposeHeaders !== undefined && { ExposeHeaders: ExposeHeaders as string[] }),
+    ...(MaxAgeSeconds !== undefined && { MaxAgeSeconds: MaxAgeSeconds as number }),
+  }
+}
+
+// Accepts the same shape as `aws s3api put-bucket-cors --cors-configuration` (`{ "CORSRules": [...] }`), or in JSON
+// just the list of rules.
+export function parseCorsConfiguration(raw: unknown): Result<S3.CORSConfiguration, Error> {
+  let rules: unknown = raw
+  if (typeof raw === 'object' && raw !== null && !Array.isArray(raw)) {
+    const { CORSRules, ...unknownKeys } = raw as Record<string, unknown>
+    const unknown = Object.keys(unknownKeys)
+    if (unknown.length !== 0) {
+      return Err(new Error(unknown.map((key) => `${key} is not a recognized setting`).join('\n')))
+    }
+    rules = CORSRules
+  }
+
+  if (!Array.isArray(rules) || rules.length === 0) {
+    return Err(new Error('CORSRules must be a non-empty list of rules'))
+  }
+  if (rules.length > maxCorsRules) {
+    return Err(new Error(`CORSRules has ${rules.length} rules but at most ${maxCorsRules} are allowed`))
+  }
+
+  const problems: string[] = []
+  const CORSRules = (rules as unknown[]).map((rule, idx) => validateCorsRule(idx, rule, problems))
+  if (problems.length !== 0) {
+    return Err(new Error(problems.join('\n')))
+  }
+
+  return Ok({ CORSRules: CORSRules as S3.CORSRule[] })
+}
+
+// Reads CORS rules from a JSON or TOML file (`-` for stdin).
+export async function loadCorsConfiguration(path: string): Promise<Result<S3.CORSConfiguration, Error>> {
+  const file = await readStructuredFile(path)
+  if (file.err) {
+    return Err(new Error(`Unable to load CORS rules. ${file.val.message}`))
+  }
+
+  const config = parseCorsConfiguration(file.val.raw)
+  if (config.err) {
+    return Err(new Error(`Invalid CORS rules in ${file.val.source}:\n${config.val.message}`))
+  }
+  return config
+}
+
+export interface Preflight {
+  origin: string
+  method: string
+  headers: string[]
+}
+
+export interface PreflightRuleResult {
+  rule: S3.CORSRule
+  // Why the rule doesn't apply. Empty if it does.
+  mismatches: string[]
+}
+
+export interface PreflightResult {
+  rules: PreflightRuleResult[]
+  // The first rule that applies, which is the one R2 answers the preflight with.
+  matched?: S3.CORSRule
+  // The CORS headers R2 would respond with when a rule matches.
+  responseHeaders: Record<string, string>
+}
+
+function matchesAny(patterns: string[] | undefined, value: string): boolean {
+  return (patterns ?? []).some((pattern) => globToRegExp(pattern.toLowerCase()).test(value.toLowerCase()))
+}
+
+// Evaluates a preflight the same way R2 does: rules are considered in order and the first one where the origin, the
+// method and every requested header are allowed wins.
+export function evaluatePreflight(config: { CORSRules?: S3.CORSRule[] }, preflight: Preflight): PreflightResult {
+  const rules = (config.CORSRules ?? []).map((rule) => {
+    const mismatches: string[] = []
+    if (!(rule.AllowedOrigins ?? []).some((origin) => globToRegExp(origin).test(preflight.origin))) {
+      mismatches.push(`origin ${preflight.origin} isn't in AllowedOrigins`)
+    }
+    if (!(rule.AllowedMethods ?? []).includes(preflight.method.toUpperCase())) {
+      mismatches.push(`method ${preflight.method.toUpperCase()} isn't in AllowedMethods`)
+    }
+    for (const header of preflight.headers.filter((header) => !matchesAny(rule.AllowedHeaders, header))) {
+      mismatches.push(`header ${header} isn't in AllowedHeaders`)
+    }
+    return { rule, mismatches }
+  })
+
+  const matched = rules.find(({ mismatches }) => mismatches.length === 0)?.rule
+  if (matched === undefined) {
+    return { rules, responseHeaders: {} }
+  }
+
+  const allowsAnyOrigin = matched.AllowedOrigins!.includes('*')
+  return {
+    rules,
+    matched,
+    responseHeaders: {
+      'Access-Control-Allow-Origin': allowsAnyOrigin ? '*' : preflight.origin,
+      'Access-Control-Allow-Methods': matched.AllowedMethods!.join(', '),
+      ...(preflight.headers.length !== 0 &&
+        { 'Access-Control-Allow-Headers': preflight.headers.map((header) => header.toLowerCase()).join(', ') }),
+      ...(matched.ExposeHeaders !== undefined && { 'Access-Control-Expose-Headers': matched.ExposeHeaders.join(', ') }),
+      ...(matched.MaxAgeSeconds !== undefined && { 'Access-Control-Max-Age': matched.MaxAgeSeconds.toString() }),
+      ...(!allowsAnyOrigin && { 'Vary': 'Origin' }),
+    },
+  }
+}
@@ -0,0 +1,331 @@
+import inquirer from 'inquirer'
+import crypto from 'node:crypto'
+import { Err, Ok, Result } from 'ts-results'
+import { readTextFile, setFileMode, writeTextFile } from './util'
+
+export const credentialStoreNames = ['keychain', 'file', 'env'] as const
+export type CredentialStoreName = typeof credentialStoreNames[number]
+
+export interface CredentialKey {
+  // The namespace the token lives under (the R2 endpoint for the account).
+  service: string
+  account_id: string
+  access_key_id: string
+}
+
+export interface CredentialStore {
+  readonly name: CredentialStoreName
+  // Human readable description used when logging where a secret is going.
+  readonly description: string
+
+  setSecret(key: CredentialKey, secret: string): Promise<Result<void, Error>>
+  getSecret(key: CredentialKey): Promise<Result<string, Error>>
+  deleteSecret(key: CredentialKey): Promise<Result<void, Error>>
+  listAccessKeyIds(key: Omit<CredentialKey, 'access_key_id'>): Promise<Result<string[], Error>>
+}
+
+export function isCredentialStoreName(name: unknown): name is CredentialStoreName {
+  return typeof name === 'string' && (credentialStoreNames as readonly string[]).includes(name)
+}
+
+export class KeychainStore implements CredentialStore {
+  readonly name = 'keychain'
+  readonly description = 'your OS encrypted password storage'
+
+  private constructor(private readonly keytar: typeof import('keytar')) {}
+
+  // keytar is a native module that links against libsecret on Linux. Loading it is what fails on headless machines
+  // so we surface that as an error rather than trying to install anything on the user's behalf.
+  static async load(): Promise<Result<KeychainStore, Error>> {
+    try {
+      return Ok(new KeychainStore((await import('keytar')).default))
+    } catch (e) {
+      return Err(
+        new Error(`Unable to load the OS keychain (${
+          (e as Error).message
+        }). On Linux this requires libsecret. Use --store file or --store env on machines without one.`),
+      )
+    }
+  }
+
+  async setSecret(key: CredentialKey, secret: string): Promise<Result<void, Error>> {
+    await this.keytar.setPassword(key.service, key.access_key_id, secret)
+    return Ok.EMPTY
+  }
+
+  async getSecret(key: CredentialKey): Promise<Result<string, Error>> {
+    const secret = await this.keytar.getPassword(key.service, key.access_key_id)
+    if (secret === null) {
+      return Err(new Error('No credentials found'))
+    }
+    return Ok(secret)
+  }
+
+  async deleteSecret(key: CredentialKey): Promise<Result<void, Error>> {
+    if (await this.keytar.deletePassword(key.service, key.access_key_id)) {
+      return Ok.EMPTY
+    }
+    return Err(new Error('Unknown problem removing token secret'))
+  }
+
+  async listAccessKeyIds(key: Omit<CredentialKey, 'access_key_id'>): Promise<Result<string[], Error>> {
+    const creds = await this.keytar.findCredentials(key.service)
+    return Ok(creds.map(({ account }) => account))
+  }
+}
+
+interface EncryptedEntry {
+  iv: string
+  tag: string
+  data: string
+}
+
+interface EncryptedFile {
+  version: 1
+  salt: string
+  // service -> access key id -> encrypted secret
+  entries: Record<string, Record<string, EncryptedEntry>>
+}
+
+// Cached for the lifetime of the process so that commands touching several secrets only prompt once.
+let cachedPassphrase: string | undefined
+
+export class EncryptedFileStore implements CredentialStore {
+  readonly name = 'file'
+  readonly description: string
+
+  constructor(private readonly filePath: string) {
+    this.description = `the passphrase-encrypted file ${filePath}`
+  }
+
+  private async read(): Promise<Result<EncryptedFile | undefined, Error>> {
+    let contents: string
+    try {
+      contents = await readTextFile(this.filePath)
+    } catch (e) {
+      if (Object.prototype.hasOwnProperty.call(e, 'code') && (e as NodeJS.ErrnoException).code === 'ENOENT') {
+        return Ok(undefined)
+      }
+      return Err(e as Error)
+    }
+
+    if (contents.trim() === '') {
+      return Ok(undefined)
+    }
+
+    try {
+      const parsed = JSON.parse(contents) as EncryptedFile
+      if (parsed.version !== 1) {
+        return Err(new Error(`Unsupported credentials file version ${parsed.version} in ${this.filePath}`))
+      }
+      return Ok(parsed)
+    } catch (e) {
+      return Err(new Error(`Trouble parsing credentials file ${this.filePath}: ${(e as Error).message}`))
+    }
+  }
+
+  private async write(contents: EncryptedFile): Promise<void> {
+    await writeTextFile(this.filePath, JSON.stringify(contents, undefined, 2), 0o600)
+    // The mode above only applies when the file is created and older versions created it readable by everyone.
+    await setFileMode(this.filePath, 0o600)
+  }
+
+  private async passphrase(creating: boolean): Promise<Result<string, Error>> {
+    if (cachedPassphrase !== undefined) {
+      return Ok(cachedPassphrase)
+    }
+
+    const fromEnv = process.env['R2_CREDENTIALS_PASSPHRASE']
+    if (fromEnv) {
+      cachedPassphrase = fromEnv
+      return Ok(fromEnv)
+    }
+
+    if (!process.stdin.isTTY) {
+      return Err(new Error(`Set R2_CREDENTIALS_PASSPHRASE to unlock ${this.filePath} non-interactively`))
+    }
+
+    const prompt = inquirer.createPromptModule()
+    const { passphrase } = await prompt({
+      name: 'passphrase',
+      type: 'password',
+      mask: '*',
+      message: creating ? `Choose a passphrase to encrypt ${this.filePath}` : `Passphrase for ${this.filePath}`,
+    })
+
+    if (creating) {
+      const { confirmation } = await prompt({
+        name: 'confirmation',
+        type: 'password',
+        mask: '*',
+        message: 'Confirm the passphrase',
+      })
+      if (confirmation !== passphrase) {
+        return Err(new Error('Passphrases do not match'))
+      }
+    }
+
+    cachedPassphrase = passphrase as string
+    return Ok(cachedPassphrase)
+  }
+
+  private static deriveKey(passphrase: string, salt: string): Buffer {
+    return crypto.scryptSync(passphrase, Buffer.from(salt, 'base64'), 32)
+  }
+
+  async setSecret(key: CredentialKey, secret: string): Promise<Result<void, Error>> {
+    const existing = await this.read()
+    if (existing.err) {
+      return existing
+    }
+
+    const contents: EncryptedFile = existing.val ??
+      { version: 1, salt: crypto.randomBytes(16).toString('base64'), entries: {} }
+
+    const passphrase = await this.passphrase(existing.val === undefined)
+    if (passphrase.err) {
+      return passphrase
+    }
+
+    const derived = EncryptedFileStore.deriveKey(passphrase.val, contents.salt)
+
+    // Make sure the passphrase is the one the rest of the file was encrypted with before adding to it.
+    const sample = Object.values(contents.entries).flatMap((service) => Object.values(service))[0]
+    if (sample !== undefined && decrypt(derived, sample).err) {
+      cachedPassphrase = undefined
+      return Err(new Error(`Incorrect passphrase for ${this.filePath}`))
+    }
+
+    const iv = crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv('aes-256-gcm', derived, iv)
+    const data = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+
+    contents.entries[key.service] = {
+      ...contents.entries[key.service],
+      [key.access_key_id]: {
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+      },
+    }
+
+    await this.write(contents)
+    return Ok.EMPTY
+  }
+
+  async getSecret(key: CredentialKey): Promise<Result<string, Error>> {
+    const existing = await this.read()
+    if (existing.err) {
+      return existing
+    }
+
+    const entry = existing.val?.entries[key.service]?.[key.access_key_id]
+    if (entry === undefined) {
+      return Err(new Error('No credentials found'))
+    }
+
+    const passphrase = await this.passphrase(false)
+    if (passphrase.err) {
+      return passphrase
+    }
+
+    const secret = decrypt(EncryptedFileStore.deriveKey(passphrase.val, existing.val!.salt), entry)
+    if (secret.err) {
+      cachedPassphrase = undefined
+      return Err(new Error(`Incorrect passphrase for ${this.filePath}`))
+    }
+    return secret
+  }
+
+  async deleteSecret(key: CredentialKey): Promise<Result<void, Error>> {
+    const existing = await this.read()
+    if (existing.err) {
+      return existing
+    }
+
+    const service = existing.val?.entries[key.service]
+    if (service === undefined || !(key.access_key_id in service)) {
+      return Err(new Error('No credentials found'))
+    }
+
+    delete service[key.access_key_id]
+    if (Object.keys(service).length === 0) {
+      delete existing.val!.entries[key.service]
+    }
+
+    await this.write(existing.val!)
+    return Ok.EMPTY
+  }
+
+  async listAccessKeyIds(key: Omit<CredentialKey, 'access_key_id'>): Promise<Result<string[], Error>> {
+    const existing = await this.read()
+    if (existing.err) {
+      return existing
+    }
+
+    return Ok(Object.keys(existing.val?.entries[key.service] ?? {}))
+  }
+}
+
+function decrypt(derived: Buffer, entry: EncryptedEntry): Result<string, Error> {
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', derived, Buffer.from(entry.iv, 'base64'))
+    decipher.setAuthTag(Buffer.from(entry.tag, 'base64'))
+    return Ok(Buffer.concat([decipher.update(Buffer.from(entry.data, 'base64')), decipher.final()]).toString('utf8'))
+  } catch (e) {
+    return Err(e as Error)
+  }
+}
+
+// Reads the token from R2_ACCESS_KEY_ID/R2_SECRET_ACCESS_KEY (optionally restricted to R2_ACCOUNT_ID). Nothing is
+// ever persisted - this exists so that CI jobs and containers can use r2 without any secret storage at all.
+export class EnvironmentStore implements CredentialStore {
+  readonly name = 'env'
+  readonly description = 'the R2_ACCESS_KEY_ID/R2_SECRET_ACCESS_KEY environment variables'
+
+  static fromEnvironment(): { account_id: string; access_key_id: string; secret_access_key: string } | undefined {
+    const account_id = process.env['R2_ACCOUNT_ID']
+    const access_key_id = process.env['R2_ACCESS_KEY_ID']
+    const secret_access_key = process.env['R2_SECRET_ACCESS_KEY']
+    if (!account_id || !access_key_id || !secret_access_key) {
+      return undefined
+    }
+    return { account_id, access_key_id, secret_access_key }
+  }
+
+  private matches(key: Omit<CredentialKey, 'access_key_id'>): boolean {
+    const account = process.env['R2_ACCOUNT_ID']
+    return !account || account === key.account_id
+  }
+
+  async setSecret(key: CredentialKey, secret: string): Promise<Result<void, Error>> {
+    // Nothing to save, but make sure that the profile will actually resolve later.
+    const found = await this.getSecret(key)
+    if (found.err || found.val !== secret) {
+      return Err(
+        new Error(
+          `The env store doesn't persist secrets. Export R2_ACCESS_KEY_ID=${key.access_key_id} and the matching R2_SECRET_ACCESS_KEY instead.`,
+        ),
+      )
+    }
+    return Ok.EMPTY
+  }
+
+  async getSecret(key: CredentialKey): Promise<Result<string, Error>> {
+    const secret = process.env['R2_SECRET_ACCESS_KEY']
+    if (!this.matches(key) || process.env['R2_ACCESS_KEY_ID'] !== key.access_key_id || !secret) {
+      return Err(new Error('No credentials found'))
+    }
+    return Ok(secret)
+  }
+
+  async deleteSecret(key: CredentialKey): Promise<Result<void, Error>> {
+    console.info('Secrets in the env store live in your environment. Unset R2_SECRET_ACCESS_KEY to remove it.')
+    return Ok.EMPTY
+  }
+
+  async listAccessKeyIds(key: Omit<CredentialKey, 'access_key_id'>): Promise<Result<string[], Error>> {
+    const access_key_id = process.env['R2_ACCESS_KEY_ID']
+    return Ok(this.matches(key) && access_key_id ? [access_key_id] : [])
+  }
+}
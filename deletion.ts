@@ -0,0 +1,98 @@
+import * as S3 from '@aws-sdk/client-s3'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { describeError } from './multipart'
+import { forEachConcurrently } from './util'
+
+// The most keys DeleteObjects accepts in one request.
+const maxDeleteBatch = 1000
+const deleteAttempts = 4
+
+// Deletes a batch of keys, trying the keys that come back in `Errors` again with a backoff. Errors for the whole
+// request have already been retried by the SDK. Returns why each key that couldn't be deleted wasn't.
+async function deleteBatch(
+  client: S3.S3,
+  bucket: string,
+  keys: string[],
+  onDeleted: (count: number) => void,
+): Promise<string[]> {
+  let remaining = keys
+  for (let i = 1;; i++) {
+    let errors: S3._Error[]
+    try {
+      const response = await client.send(
+        new S3.DeleteObjectsCommand({
+          Bucket: bucket,
+          Delete: { Objects: remaining.map((Key) => ({ Key })), Quiet: true },
+        }),
+      )
+      errors = response.Errors ?? []
+    } catch (e) {
+      return remaining.map((key) => `${key}: ${describeError(e)}`)
+    }
+
+    onDeleted(remaining.length - errors.length)
+    if (errors.length === 0 || i === deleteAttempts) {
+      return errors.map(({ Key, Code, Message }) => `${Key}: ${Code} ${Message}`)
+    }
+    remaining = errors.map(({ Key }) => Key!)
+    await sleep(500 * 2 ** i)
+  }
+}
+
+// Deletes keys with DeleteObjects, a batch of up to 1,000 at a time with `concurrency` batches in flight. Once
+// `signal` is aborted no more batches are started. Returns why each key that couldn't be deleted wasn't.
+export async function deleteKeys(
+  client: S3.S3,
+  bucket: string,
+  keys: string[],
+  concurrency: number,
+  signal: AbortSignal | undefined,
+  onDeleted: (count: number) => void,
+): Promise<string[]> {
+  const batches: string[][] = []
+  for (let start = 0; start < keys.length; start += maxDeleteBatch) {
+    batches.push(keys.slice(start, start + maxDeleteBatch))
+  }
+
+  const failures: string[] = []
+  await forEachConcurrently(batches, concurrency, signal, async (batch) => {
+    failures.push(...await deleteBatch(client, bucket, batch, onDeleted))
+  })
+  return failures
+}
+
+// Every in-progress multipart upload in a bucket, following the key and upload ID markers.
+export async function listAllUploads(client: S3.S3, bucket: string): Promise<S3.MultipartUpload[]> {
+  const uploads: S3.MultipartUpload[] = []
+  let KeyMarker: string | undefined
+  let UploadIdMarker: string | undefined
+  for (;;) {
+    const response = await client.send(
+      new S3.ListMultipartUploadsCommand({ Bucket: bucket, KeyMarker, UploadIdMarker }),
+    )
+    uploads.push(...response.Uploads ?? [])
+    if (!response.IsTruncated || response.NextKeyMarker === undefined) {
+      return uploads
+    }
+    KeyMarker = response.NextKeyMarker
+    UploadIdMarker = response.NextUploadIdMarker
+  }
+}
+
+// Aborts multipart uploads `concurrency` at a time. Returns why each upload that couldn't be aborted wasn't.
+export async function abortUploads(
+  client: S3.S3,
+  bucket: string,
+  uploads: S3.MultipartUpload[],
+  concurrency: number,
+): Promise<string[]> {
+  const failures: string[] = []
+  await forEachConcurrently(uploads, concurrency, undefined, async ({ Key, UploadId }) => {
+    try {
+      await client.send(new S3.AbortMultipartUploadCommand({ Bucket: bucket, Key, UploadId }))
+    } catch (e) {
+      failures.push(`${Key} (upload ${UploadId}): ${describeError(e)}`)
+    }
+  })
+  return failures
+}
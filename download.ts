@@ -0,0 +1,224 @@
+import * as S3 from '@aws-sdk/client-s3'
+import * as AWSTypes from '@aws-sdk/types'
+import fs from 'node:fs'
+import { Readable } from 'node:stream'
+import { Err, Ok, Result } from 'ts-results'
+import { abortOnInterrupt, describeError, FilePart, fileParts, forEachPart, MultipartOptions, partSizeFor, withRetries } from './multipart'
+import { fileMd5, readTextFile, removeFile, writeTextFileAtomic } from './util'
+
+// What's recorded next to a partly downloaded file so that the download can be picked up again.
+interface Checkpoint {
+  version: 1
+  bucket: string
+  key: string
+  etag: string
+  size: number
+  partSize: number
+  // Numbers of the parts known to be written to the partial file
+  parts: number[]
+}
+
+// The version of the object being downloaded, as returned by HeadObject.
+export interface ObjectVersion {
+  Bucket: string
+  Key: string
+  ETag: string
+  size: number
+}
+
+async function readCheckpoint(p: string): Promise<Checkpoint | undefined> {
+  let contents: string
+  try {
+    contents = await readTextFile(p)
+  } catch (e) {
+    return undefined
+  }
+
+  try {
+    const checkpoint = JSON.parse(contents) as Checkpoint
+    return checkpoint.version === 1 ? checkpoint : undefined
+  } catch (e) {
+    console.warn(`Ignoring unreadable download checkpoint ${p}`)
+    return undefined
+  }
+}
+
+// An empty object has no ranges to ask for.
+function byteRanges(size: number, partSize: number): FilePart[] {
+  return size === 0 ? [] : fileParts(size, partSize)
+}
+
+// A partial file can only be added to if it's of the same version of the same object and hasn't been cut short since.
+async function canResume(checkpoint: Checkpoint, object: ObjectVersion, partial: string): Promise<boolean> {
+  const sameVersion = checkpoint.bucket === object.Bucket &&
+    checkpoint.key === object.Key &&
+    checkpoint.etag === object.ETag &&
+    checkpoint.size === object.size
+  if (!sameVersion) {
+    return false
+  }
+  try {
+    return (await fs.promises.stat(partial)).size === object.size
+  } catch (e) {
+    return false
+  }
+}
+
+// Writes one byte range of the object into the partial file at the same offset. The range is only asked for if the
+// object still has the ETag the download started with.
+async function downloadPart(
+  client: S3.S3,
+  object: ObjectVersion,
+  handle: fs.promises.FileHandle,
+  part: FilePart,
+  signal: AbortSignal,
+): Promise<void> {
+  await withRetries(`Downloading part ${part.PartNumber}`, signal, async () => {
+    const response = await client.send(
+      new S3.GetObjectCommand({
+        Bucket: object.Bucket,
+        Key: object.Key,
+        Range: `bytes=${part.start}-${part.start + part.length - 1}`,
+        IfMatch: object.ETag,
+      }),
+      { abortSignal: signal as unknown as AWSTypes.AbortSignal },
+    )
+    let written = 0
+    for await (const chunk of response.Body as Readable) {
+      if (written + chunk.length > part.length) {
+        throw new Error(`Part ${part.PartNumber} is longer than the ${part.length} bytes asked for`)
+      }
+      await handle.write(chunk as Buffer, 0, chunk.length, part.start + written)
+      written += chunk.length
+    }
+    if (written !== part.length) {
+      throw new Error(`Part ${part.PartNumber} ended after ${written} of ${part.length} bytes`)
+    }
+  })
+}
+
+// The parts are only recorded once they've been written, so this is mostly a check that nothing else touched the file
+// in the meantime. Objects uploaded in parts have an ETag that isn't the MD5 of the contents so only the size can be
+// checked for those.
+async function verifyDownload(partial: string, object: ObjectVersion): Promise<Result<void, Error>> {
+  const size = (await fs.promises.stat(partial)).size
+  if (size !== object.size) {
+    return Err(new Error(`The downloaded file is ${size} bytes rather than ${object.size}`))
+  }
+  const etag = object.ETag.replace(/"/g, '')
+  if (/^[0-9a-f]{32}$/.test(etag) && await fileMd5(partial) !== etag) {
+    return Err(new Error(`The downloaded file doesn't match the object's ETag ${object.ETag}`))
+  }
+  return Ok.EMPTY
+}
+
+// Downloads an object in byte ranges with up to `concurrency` in flight at once. Ranges are written into
+// `<file>.partial`, and which ones have arrived is recorded in `<file>.partial.json` so that running the same download
+// again after a failure or Ctrl-C only fetches the rest. Every range is requested with If-Match on the ETag so that a
+// different version of the object is never spliced in. The file is only renamed into place once it's complete and
+// verified.
+export async function downloadFileResumable(
+  client: S3.S3,
+  object: ObjectVersion,
+  file: string,
+  options: MultipartOptions,
+  onProgress: (bytes: number) => void,
+): Promise<Result<void, Error>> {
+  const partial = `${file}.partial`
+  const checkpointFile = `${partial}.json`
+  let checkpoint = await readCheckpoint(checkpointFile)
+
+  if (checkpoint !== undefined && !await canResume(checkpoint, object, partial)) {
+    console.warn(`Unable to resume from ${partial} since it or the object has changed, starting over`)
+    checkpoint = undefined
+  }
+  if (checkpoint !== undefined) {
+    const total = byteRanges(checkpoint.size, checkpoint.partSize).length
+    console.info(`Resuming download: ${checkpoint.parts.length} of ${total} parts already downloaded`)
+    if (options.partSize !== checkpoint.partSize) {
+      console.warn(`Keeping the part size of ${checkpoint.partSize} bytes the download was started with`)
+    }
+  } else {
+    checkpoint = {
+      version: 1,
+      bucket: object.Bucket,
+      key: object.Key,
+      etag: object.ETag,
+      size: object.size,
+      partSize: partSizeFor(object.size, options.partSize),
+      parts: [],
+    }
+    try {
+      // Sized up front so that parts can be written wherever they go, in whatever order they arrive.
+      await fs.promises.writeFile(partial, '')
+      await fs.promises.truncate(partial, object.size)
+    } catch (e) {
+      return Err(new Error(`Unable to create ${partial}: ${(e as Error).message}`))
+    }
+  }
+
+  // Parts finish concurrently so writes of the checkpoint are queued up to keep them from clobbering each other.
+  let saving = writeTextFileAtomic(checkpointFile, JSON.stringify(checkpoint))
+  const save = () => {
+    saving = saving.then(() => writeTextFileAtomic(checkpointFile, JSON.stringify(checkpoint)))
+    return saving
+  }
+  try {
+    await saving
+  } catch (e) {
+    return Err(new Error(`Unable to save the download checkpoint ${checkpointFile}: ${(e as Error).message}`))
+  }
+
+  const parts = byteRanges(object.size, checkpoint.partSize)
+  const done = new Set(checkpoint.parts)
+  onProgress(parts.filter(({ PartNumber }) => done.has(PartNumber)).reduce((total, { length }) => total + length, 0))
+
+  const controller = new AbortController()
+  const handle = await fs.promises.open(partial, 'r+')
+  try {
+    await abortOnInterrupt(
+      controller,
+      () =>
+        forEachPart(
+          parts.filter(({ PartNumber }) => !done.has(PartNumber)),
+          options.concurrency,
+          controller.signal,
+          async (part, signal) => {
+            await downloadPart(client, object, handle, part, signal)
+            checkpoint!.parts.push(part.PartNumber)
+            await save()
+            onProgress(part.length)
+          },
+        ),
+    )
+  } catch (e) {
+    await saving.catch(() => {})
+    const resume =
+      `${checkpoint.parts.length} of ${parts.length} parts are downloaded. Run the same command again to resume.`
+    if (controller.signal.aborted) {
+      return Err(new Error(`Download interrupted. ${resume}`))
+    }
+    if ((e as Partial<AWSTypes.MetadataBearer>).$metadata?.httpStatusCode === 412) {
+      return Err(
+        new Error(`${object.Key} changed while it was being downloaded. Run the same command again to start over.`),
+      )
+    }
+    return Err(new Error(`Download failed: ${describeError(e)}. ${resume}`))
+  } finally {
+    await handle.close()
+  }
+
+  const verified = await verifyDownload(partial, object)
+  if (verified.err) {
+    await removeFile(partial)
+    await removeFile(checkpointFile)
+    return Err(new Error(`${verified.val.message}. It's been removed, run the same command again to start over.`))
+  }
+  try {
+    await fs.promises.rename(partial, file)
+  } catch (e) {
+    return Err(new Error(`Unable to move ${partial} to ${file}: ${(e as Error).message}`))
+  }
+  await removeFile(checkpointFile)
+  return Ok.EMPTY
+}
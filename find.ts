@@ -0,0 +1,230 @@
+import * as S3 from '@aws-sdk/client-s3'
+import { ArgumentsCamelCase } from 'yargs'
+import yargs from 'yargs/yargs'
+import { listObjectPages } from './listing'
+import { ProgressBarCreator } from './main'
+import { describeError } from './multipart'
+import { buildS3Commands, confirmAndDelete, createClient, GenericCmdArgs, handleS3Cmd } from './s3'
+import { directoryPrefix, parseLocation, sizeFormat } from './transfer'
+import { countOf, forEachConcurrently, parseSize } from './util'
+
+// `+N` is more than N bytes, `-N` less than N and a bare N exactly N.
+export interface SizePredicate {
+  comparison: -1 | 0 | 1
+  bytes: number
+}
+
+export function parseSizePredicate(spec: string): SizePredicate {
+  const comparison = spec.startsWith('+') ? 1 : spec.startsWith('-') ? -1 : 0
+  return { comparison, bytes: parseSize(comparison === 0 ? spec : spec.slice(1)) }
+}
+
+const durationUnits: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+}
+
+// Either a date or how long ago, e.g. 30d or 12h.
+export function parseTime(spec: string): Date {
+  const ago = /^(\d+)([smhdw])$/.exec(spec)
+  if (ago !== null) {
+    return new Date(Date.now() - Number(ago[1]) * durationUnits[ago[2]!]!)
+  }
+  const date = new Date(spec)
+  if (isNaN(date.getTime())) {
+    throw new Error(`Unrecognized time '${spec}' (expected a date or something like 30d)`)
+  }
+  return date
+}
+
+export function parseRegExp(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern)
+  } catch (e) {
+    throw new Error(`Invalid --regex: ${(e as Error).message}`)
+  }
+}
+
+export interface FindArgs {
+  location: string
+  name?: RegExp
+  regex?: RegExp
+  size?: SizePredicate[]
+  newer?: Date
+  older?: Date
+  meta?: string[]
+  print0?: boolean
+  delete?: boolean
+  yes?: boolean
+  exec?: string
+  concurrency: number
+  account?: string
+  verbose?: boolean
+}
+
+// Everything that can be checked from the listing alone.
+function matchesListing(object: S3._Object, argv: FindArgs): boolean {
+  const key = object.Key!
+  const size = object.Size ?? 0
+  const modified = object.LastModified!
+  return (argv.name === undefined || argv.name.test(key.slice(key.lastIndexOf('/') + 1))) &&
+    (argv.regex === undefined || argv.regex.test(key)) &&
+    (argv.size ?? []).every(({ comparison, bytes }) => Math.sign(size - bytes) === comparison) &&
+    (argv.newer === undefined || modified > argv.newer) &&
+    (argv.older === undefined || modified < argv.older)
+}
+
+// Metadata isn't in listings so it's only looked up for objects that match everything else.
+async function filterByMetadata(
+  client: S3.S3,
+  bucket: string,
+  objects: S3._Object[],
+  metadata: [string, string][],
+  concurrency: number,
+): Promise<S3._Object[]> {
+  const matches: boolean[] = []
+  await forEachConcurrently([...objects.keys()], concurrency, undefined, async (idx) => {
+    try {
+      const head = await client.send(new S3.HeadObjectCommand({ Bucket: bucket, Key: objects[idx]!.Key }))
+      matches[idx] = metadata.every(([k, v]) => head.Metadata?.[k] === v)
+    } catch (e) {
+      // Deleted since it was listed.
+      if ((e as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode !== 404) {
+        console.error(`Unable to check the metadata of ${objects[idx]!.Key}: ${describeError(e)}`)
+        process.exitCode = 1
+      }
+    }
+  })
+  return objects.filter((_, idx) => matches[idx] === true)
+}
+
+// Runs an s3 command for a matching object, with `{}` replaced by its key and `{bucket}` by its bucket. The command is
+// handled just like it would be from the command line.
+async function execFor(
+  template: string[],
+  bucket: string,
+  key: string,
+  progressBarCreator: ProgressBarCreator,
+): Promise<void> {
+  const args = template.map((arg) => arg.replace(/\{bucket\}/g, bucket).replace(/\{\}/g, key))
+  const parser = buildS3Commands(
+    (argv, cmd, moreHeaders) =>
+      handleS3Cmd(argv as ArgumentsCamelCase<GenericCmdArgs>, cmd, progressBarCreator, moreHeaders),
+    yargs(),
+    progressBarCreator,
+  )
+  await parser
+    .demandCommand(1, 1)
+    .exitProcess(false)
+    .fail((message, e) => {
+      throw e ?? new Error(message)
+    })
+    .parseAsync(args)
+}
+
+export async function findCommand(
+  argv: ArgumentsCamelCase<FindArgs>,
+  progressBarCreator: ProgressBarCreator,
+): Promise<void> {
+  if (!Number.isInteger(argv.concurrency) || argv.concurrency < 1) {
+    console.error('The concurrency must be a positive integer')
+    process.exitCode = 1
+    return
+  }
+
+  const location = parseLocation(argv.location)
+  if (location.err) {
+    console.error(location.val.message)
+    process.exitCode = 1
+    return
+  }
+  if (location.val.kind !== 'r2') {
+    console.error(`${argv.location} isn't an R2 location. Expected r2://[profile@]bucket/prefix`)
+    process.exitCode = 1
+    return
+  }
+  const { bucket, profile } = location.val
+  const account = profile ?? argv.account
+
+  const metadata: [string, string][] = []
+  for (const kv of argv.meta ?? []) {
+    if (!kv.includes('=')) {
+      console.error(`Bad metadata '${kv}' - missing '=' between key and value`)
+      process.exitCode = 1
+      return
+    }
+    const [k, ...rest] = kv.split('=')
+    // The SDK hands back metadata with lowercased keys.
+    metadata.push([k!.toLowerCase(), rest.join('=')])
+  }
+
+  let template: string[] | undefined
+  if (argv.exec !== undefined) {
+    template = argv.exec.split(/\s+/).filter((arg) => arg !== '')
+    // The command talks to the same account as the search unless it says otherwise.
+    if (account !== undefined && !template.some((arg) => ['-a', '--account'].includes(arg.split('=')[0]!))) {
+      template.push('--account', account)
+    }
+  }
+
+  const created = await createClient({ account, bucket, verbose: argv.verbose })
+  if (created.err) {
+    if (created.val.message) {
+      console.error(created.val.message)
+    }
+    process.exitCode = 1
+    return
+  }
+  const client = created.val
+
+  const toDelete: S3._Object[] = []
+  try {
+    const input = { Bucket: bucket, Prefix: directoryPrefix(location.val.key) }
+    for await (const page of listObjectPages(client, input)) {
+      const candidates = (page.Contents ?? []).filter((object) => matchesListing(object, argv))
+      const matched = metadata.length === 0 ?
+        candidates :
+        await filterByMetadata(client, bucket, candidates, metadata, argv.concurrency)
+
+      for (const object of matched) {
+        if (argv.delete) {
+          toDelete.push(object)
+        } else if (template !== undefined) {
+          try {
+            await execFor(template, bucket, object.Key!, progressBarCreator)
+          } catch (e) {
+            console.error(`Failed --exec for ${object.Key}: ${(e as Error).message}`)
+            process.exitCode = 1
+          }
+        } else if (argv.print0) {
+          process.stdout.write(`${object.Key}\0`)
+        } else {
+          console.info(object.Key)
+        }
+      }
+    }
+  } catch (e) {
+    console.error(`Unable to list ${argv.location}: ${describeError(e)}`)
+    process.exitCode = 1
+    return
+  }
+
+  if (argv.delete) {
+    if (toDelete.length === 0) {
+      console.info('Nothing matched')
+      return
+    }
+    const bytes = toDelete.reduce((sum, object) => sum + (object.Size ?? 0), 0)
+    await confirmAndDelete(
+      client,
+      bucket,
+      toDelete.map((object) => object.Key!),
+      `${countOf(toDelete.length, 'object')} (${sizeFormat(bytes)}) matching in ${argv.location}`,
+      { yes: argv.yes, concurrency: argv.concurrency },
+      progressBarCreator,
+    )
+  }
+}
@@ -0,0 +1,257 @@
+import * as S3 from '@aws-sdk/client-s3'
+import { Err, Ok, Result } from 'ts-results'
+import { readStructuredFile } from './util'
+
+// The storage classes objects can be transitioned to.
+const transitionStorageClasses = ['STANDARD_IA']
+
+// R2 rejects configurations with more rules than this.
+const maxLifecycleRules = 1000
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0
+}
+
+// JSON has no date type so dates arrive as strings there, but TOML parses them into Dates.
+function parseDate(value: unknown): Date | undefined {
+  const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : undefined
+  return date !== undefined && !isNaN(date.getTime()) ? date : undefined
+}
+
+function isMidnightUTC(date: Date): boolean {
+  return date.getUTCHours() === 0 &&
+    date.getUTCMinutes() === 0 &&
+    date.getUTCSeconds() === 0 &&
+    date.getUTCMilliseconds() === 0
+}
+
+function unknownKeyProblems(name: string, keys: Record<string, unknown>, problems: string[]): void {
+  for (const key of Object.keys(keys)) {
+    problems.push(`${name}.${key} is not a recognized setting`)
+  }
+}
+
+// Validates a `{ Days }` or `{ Date }` table. Exactly one of the two must be set.
+function validateWhen(
+  name: string,
+  value: Record<string, unknown>,
+  problems: string[],
+): { Days?: number; Date?: Date } | undefined {
+  const { Days, Date: date } = value
+  if ((Days === undefined) === (date === undefined)) {
+    problems.push(`${name} must set exactly one of Days or Date`)
+    return undefined
+  }
+
+  if (Days !== undefined) {
+    if (!isPositiveInteger(Days)) {
+      problems.push(`${name}.Days must be a positive integer`)
+      return undefined
+    }
+    return { Days }
+  }
+
+  const parsed = parseDate(date)
+  if (parsed === undefined || !isMidnightUTC(parsed)) {
+    problems.push(`${name}.Date must be a date at midnight UTC (e.g. 2030-01-01)`)
+    return undefined
+  }
+  return { Date: parsed }
+}
+
+function validateLifecycleRule(idx: number, value: unknown, problems: string[]): S3.LifecycleRule | undefined {
+  const name = `Rules[${idx}]`
+  if (!isTable(value)) {
+    problems.push(`${name} must be a table`)
+    return undefined
+  }
+
+  const { ID, Status, Filter, Expiration, AbortIncompleteMultipartUpload, Transitions, ...unknownKeys } = value
+  const before = problems.length
+  const rule: S3.LifecycleRule = { Status: Status as S3.ExpirationStatus }
+
+  if (ID !== undefined) {
+    if (typeof ID !== 'string' || ID === '' || ID.length > 255) {
+      problems.push(`${name}.ID must be a non-empty string of at most 255 characters`)
+    } else {
+      rule.ID = ID
+    }
+  }
+  if (Status !== 'Enabled' && Status !== 'Disabled') {
+    problems.push(`${name}.Status must be Enabled or Disabled`)
+  }
+
+  rule.Filter = { Prefix: '' }
+  if (Filter !== undefined) {
+    if (!isTable(Filter)) {
+      problems.push(`${name}.Filter must be a table`)
+    } else {
+      const { Prefix, ...unknownFilterKeys } = Filter
+      if (Prefix !== undefined && typeof Prefix !== 'string') {
+        problems.push(`${name}.Filter.Prefix must be a string`)
+      } else {
+        rule.Filter = { Prefix: Prefix ?? '' }
+      }
+      unknownKeyProblems(`${name}.Filter`, unknownFilterKeys, problems)
+    }
+  }
+
+  if (Expiration === undefined && AbortIncompleteMultipartUpload === undefined && Transitions === undefined) {
+    problems.push(`${name} must set at least one of Expiration, AbortIncompleteMultipartUpload or Transitions`)
+  }
+
+  if (Expiration !== undefined) {
+    if (!isTable(Expiration)) {
+      problems.push(`${name}.Expiration must be a table`)
+    } else {
+      const { Days, Date: date, ...unknownExpirationKeys } = Expiration
+      rule.Expiration = validateWhen(`${name}.Expiration`, { Days, Date: date }, problems)
+      unknownKeyProblems(`${name}.Expiration`, unknownExpirationKeys, problems)
+    }
+  }
+
+  if (AbortIncompleteMultipartUpload !== undefined) {
+    if (!isTable(AbortIncompleteMultipartUpload)) {
+      problems.push(`${name}.AbortIncompleteMultipartUpload must be a table`)
+    } else {
+      const { DaysAfterInitiation, ...unknownAbortKeys } = AbortIncompleteMultipartUpload
+      if (!isPositiveInteger(DaysAfterInitiation)) {
+        problems.push(`${name}.AbortIncompleteMultipartUpload.DaysAfterInitiation must be a positive integer`)
+      } else {
+        rule.AbortIncompleteMultipartUpload = { DaysAfterInitiation }
+      }
+      unknownKeyProblems(`${name}.AbortIncompleteMultipartUpload`, unknownAbortKeys, problems)
+    }
+  }
+
+  if (Transitions !== undefined) {
+    if (!Array.isArray(Transitions) || Transitions.length === 0) {
+      problems.push(`${name}.Transitions must be a non-empty list`)
+    } else {
+      rule.Transitions = []
+      for (const [transitionIdx, transition] of (Transitions as unknown[]).entries()) {
+        const transitionName = `${name}.Transitions[${transitionIdx}]`
+        if (!isTable(transition)) {
+          problems.push(`${transitionName} must be a table`)
+          continue
+        }
+
+        const { Days, Date: date, StorageClass, ...unknownTransitionKeys } = transition
+        const when = validateWhen(transitionName, { Days, Date: date }, problems)
+        if (typeof StorageClass !== 'string' || !transitionStorageClasses.includes(StorageClass)) {
+          problems.push(`${transitionName}.StorageClass must be one of ${transitionStorageClasses.join(', ')}`)
+        } else if (when !== undefined) {
+          rule.Transitions!.push({ ...when, StorageClass: StorageClass as S3.TransitionStorageClass })
+        }
+        unknownKeyProblems(transitionName, unknownTransitionKeys, problems)
+
+        const expirationDays = rule.Expiration?.Days
+        if (when?.Days !== undefined && expirationDays !== undefined && when.Days >= expirationDays) {
+          problems.push(`${transitionName} happens after the objects have already expired`)
+        }
+      }
+    }
+  }
+
+  unknownKeyProblems(name, unknownKeys, problems)
+
+  if (problems.length !== before) {
+    return undefined
+  }
+  return rule
+}
+
+// Accepts the same shape as `aws s3api put-bucket-lifecycle-configuration --lifecycle-configuration`
+// (`{ "Rules": [...] }`).
+export function parseLifecycleConfiguration(raw: unknown): Result<S3.BucketLifecycleConfiguration, Error> {
+  if (!isTable(raw)) {
+    return Err(new Error('The lifecycle configuration must be a table with a Rules list'))
+  }
+
+  const { Rules, ...unknownKeys } = raw
+  const problems: string[] = []
+  for (const key of Object.keys(unknownKeys)) {
+    problems.push(`${key} is not a recognized setting`)
+  }
+
+  if (!Array.isArray(Rules) || Rules.length === 0) {
+    problems.push('Rules must be a non-empty list of rules')
+  } else if (Rules.length > maxLifecycleRules) {
+    problems.push(`Rules has ${Rules.length} rules but at most ${maxLifecycleRules} are allowed`)
+  }
+  if (problems.length !== 0) {
+    return Err(new Error(problems.join('\n')))
+  }
+
+  const rules = (Rules as unknown[]).map((rule, idx) => validateLifecycleRule(idx, rule, problems))
+
+  const seen = new Set<string>()
+  for (const id of rules.map((rule) => rule?.ID).filter((id): id is string => id !== undefined)) {
+    if (seen.has(id)) {
+      problems.push(`More than one rule has the ID ${id}`)
+    }
+    seen.add(id)
+  }
+
+  if (problems.length !== 0) {
+    return Err(new Error(problems.join('\n')))
+  }
+
+  return Ok({ Rules: rules as S3.LifecycleRule[] })
+}
+
+// Reads lifecycle rules from a JSON or TOML file (`-` for stdin).
+export async function loadLifecycleConfiguration(
+  path: string,
+): Promise<Result<S3.BucketLifecycleConfiguration, Error>> {
+  const file = await readStructuredFile(path)
+  if (file.err) {
+    return Err(new Error(`Unable to load lifecycle rules. ${file.val.message}`))
+  }
+
+  const config = parseLifecycleConfiguration(file.val.raw)
+  if (config.err) {
+    return Err(new Error(`Invalid lifecycle rules in ${file.val.source}:\n${config.val.message}`))
+  }
+  return config
+}
+
+function describeWhen(when: { Days?: number; Date?: Date }, after: string): string {
+  if (when.Days !== undefined) {
+    return `${when.Days} day${when.Days === 1 ? '' : 's'} after ${after}`
+  }
+  return `on ${when.Date!.toISOString().slice(0, 10)}`
+}
+
+// Explains in plain English what each rule will do, one line per action.
+export function describeLifecycleRules(config: S3.BucketLifecycleConfiguration): string[] {
+  return (config.Rules ?? []).flatMap((rule, idx) => {
+    const name = rule.ID !== undefined ? `Rule ${idx} (${rule.ID})` : `Rule ${idx}`
+    const prefix = rule.Filter?.Prefix
+    const objects = prefix ? `objects under ${prefix}` : 'all objects'
+    const lines = [`${name}${rule.Status === 'Disabled' ? ' [disabled, does nothing]' : ''} applies to ${objects}:`]
+
+    for (const transition of rule.Transitions ?? []) {
+      lines.push(`  - moves them to ${transition.StorageClass} ${describeWhen(transition, 'they are uploaded')}`)
+    }
+    if (rule.Expiration !== undefined) {
+      lines.push(`  - deletes them ${describeWhen(rule.Expiration, 'they are uploaded')}`)
+    }
+    if (rule.AbortIncompleteMultipartUpload !== undefined) {
+      lines.push(
+        `  - aborts multipart uploads still incomplete ${
+          describeWhen({
+            Days: rule
+              .AbortIncompleteMultipartUpload
+              .DaysAfterInitiation,
+          }, 'they were started')
+        }`,
+      )
+    }
+    return lines
+  })
+}
@@ -0,0 +1,142 @@
+import * as S3 from '@aws-sdk/client-s3'
+import { Readable } from 'node:stream'
+
+// The most keys R2 returns in a single page, which is also what it defaults to.
+const maxPageSize = 1000
+
+// Asks for no more than what's left of the limit so that the last page doesn't overshoot it.
+function pageSize(requested: number | undefined, remaining: number): number | undefined {
+  if (remaining === Infinity) {
+    return requested
+  }
+  return Math.min(requested ?? maxPageSize, remaining)
+}
+
+function keyCount(page: { Contents?: unknown[]; CommonPrefixes?: unknown[] }): number {
+  return (page.Contents?.length ?? 0) + (page.CommonPrefixes?.length ?? 0)
+}
+
+// Yields pages of ListObjectsV2 as they arrive, following continuation tokens until the listing is done or `limit`
+// keys (objects and common prefixes) have been returned.
+export async function* listObjectPages(
+  client: S3.S3,
+  input: S3.ListObjectsV2CommandInput,
+  limit = Infinity,
+): AsyncGenerator<S3.ListObjectsV2CommandOutput> {
+  let remaining = limit
+  let ContinuationToken = input.ContinuationToken
+  while (remaining > 0) {
+    const page = await client.send(
+      new S3.ListObjectsV2Command({ ...input, ContinuationToken, MaxKeys: pageSize(input.MaxKeys, remaining) }),
+    )
+    remaining -= keyCount(page)
+    yield page
+    if (!page.IsTruncated || page.NextContinuationToken === undefined) {
+      return
+    }
+    ContinuationToken = page.NextContinuationToken
+  }
+}
+
+// The same for the V1 API, which pages with a marker rather than a continuation token.
+export async function* listObjectV1Pages(
+  client: S3.S3,
+  input: S3.ListObjectsCommandInput,
+  limit = Infinity,
+): AsyncGenerator<S3.ListObjectsCommandOutput> {
+  let remaining = limit
+  let Marker = input.Marker
+  while (remaining > 0) {
+    const page = await client.send(
+      new S3.ListObjectsCommand({ ...input, Marker, MaxKeys: pageSize(input.MaxKeys, remaining) }),
+    )
+    remaining -= keyCount(page)
+    yield page
+    // NextMarker is only returned when there's a delimiter. Otherwise the listing carries on after the last key.
+    Marker = page.NextMarker ?? page.Contents?.[page.Contents.length - 1]?.Key
+    if (!page.IsTruncated || Marker === undefined) {
+      return
+    }
+  }
+}
+
+export interface BucketPage extends S3.ListBucketsCommandOutput {
+  ContinuationToken?: string
+}
+
+// Sends R2's cf-* ListBuckets extensions and picks the continuation token out of the response. The SDK doesn't know
+// about it and would otherwise drop it while parsing the XML.
+function withBucketListHeaders(
+  command: S3.ListBucketsCommand,
+  headers: Record<string, string>,
+  onContinuationToken: (token: string | undefined) => void,
+): S3.ListBucketsCommand {
+  command.middlewareStack.add((next) => (args) => {
+    const request = args.request as { headers: Record<string, string> }
+    Object.assign(request.headers, headers)
+    return next(args)
+  }, { step: 'build', name: 'bucketListHeaders' })
+
+  command.middlewareStack.add((next) => async (args) => {
+    const result = await next(args)
+    const response = result.response as { body: AsyncIterable<Uint8Array> }
+    const chunks: Uint8Array[] = []
+    for await (const chunk of response.body) {
+      chunks.push(chunk)
+    }
+    const body = Buffer.concat(chunks)
+    onContinuationToken(/<ContinuationToken>([^<]+)<\/ContinuationToken>/.exec(body.toString())?.[1])
+    // Hand the deserializer a fresh copy of the body that was just consumed.
+    response.body = Readable.from([body])
+    return result
+  }, { step: 'deserialize', priority: 'low', name: 'bucketListContinuationToken' })
+
+  return command
+}
+
+// Yields pages of ListBuckets, following R2's cf-continuation-token until every bucket or `limit` buckets have been
+// returned. `headers` are the other cf-* extensions (e.g. cf-prefix) to send with every request.
+export async function* listBucketPages(
+  client: S3.S3,
+  headers: Record<string, string>,
+  limit = Infinity,
+): AsyncGenerator<BucketPage> {
+  let remaining = limit
+  let token = headers['cf-continuation-token']
+  const requested = headers['cf-max-keys'] !== undefined ? Number(headers['cf-max-keys']) : undefined
+  while (remaining > 0) {
+    const size = pageSize(requested, remaining)
+    let next: string | undefined
+    const page: BucketPage = await client.send(
+      withBucketListHeaders(new S3.ListBucketsCommand({}), {
+        ...headers,
+        ...(token !== undefined && { 'cf-continuation-token': token }),
+        ...(size !== undefined && { 'cf-max-keys': size.toString() }),
+      }, (found) => next = found),
+    )
+    page.ContinuationToken = next
+    remaining -= page.Buckets?.length ?? 0
+    yield page
+    if (next === undefined) {
+      return
+    }
+    token = next
+  }
+}
+
+// Joins the pages of a listing into one response as though it had all come back at once. The lists in each page (e.g.
+// Contents) are concatenated, KeyCount is added up and everything else is taken from the last page.
+export function mergePages<Page extends object>(first: Page, ...rest: Page[]): Page {
+  return rest.reduce((merged, page) => {
+    const combined: Record<string, unknown> = { ...page as Record<string, unknown> }
+    for (const [field, previous] of Object.entries(merged)) {
+      const value = (page as Record<string, unknown>)[field]
+      if (Array.isArray(previous)) {
+        combined[field] = [...previous, ...(Array.isArray(value) ? value : [])]
+      } else if (field === 'KeyCount' && typeof previous === 'number') {
+        combined[field] = previous + (typeof value === 'number' ? value : 0)
+      }
+    }
+    return combined as Page
+  }, first)
+}
@@ -1,16 +1,68 @@
 import colors from 'ansi-colors'
 import cliProgress from 'cli-progress'
 import process from 'node:process'
-import { ArgumentsCamelCase } from 'yargs'
+import { ArgumentsCamelCase, Argv } from 'yargs'
 import yargs from 'yargs/yargs'
-import { importConfig, initConfigCommand, listConfigsCommand, listCredsCommand as listCredsCommand, removeConfigCommand, removeCredCommand } from './config'
-import { buildS3Commands, GenericCmdArgs, handleS3Cmd } from './s3'
+import { DuArgs, duCommand, LsArgs, lsCommand } from './browse'
+import { currentProfileCommand, doctorCommand, exportConfigCommand, importConfig, initConfigCommand, listConfigsCommand, listCredsCommand as listCredsCommand, removeConfigCommand, removeCredCommand, rotateCredsCommand, useProfileCommand, whichProfileCommand } from './config'
+import { credentialStoreNames } from './creds'
+import { FindArgs, findCommand, parseRegExp, parseSizePredicate, parseTime } from './find'
+import { addAccountArg, addObjectMetadataOptions, addVerboseOption, buildS3Commands, GenericCmdArgs, handleS3Cmd } from './s3'
+import { jurisdictions } from './schema'
+import { SyncArgs, syncCommand } from './sync'
+import { CpArgs, cpCommand, overwritePolicies } from './transfer'
+import { globToRegExp } from './util'
 
 interface ProgressBarOptions {
   description: string
+  // For streams whose length isn't known up front only the bytes sent so far and the speed are shown.
+  unknownTotal?: boolean
 }
 export type ProgressBarCreator = (options: ProgressBarOptions) => cliProgress.GenericBar
 
+function addStoreOption<T>(yargs: Argv<T>, description: string, defaultStore?: string): Argv<T> {
+  return yargs.option('store', {
+    description,
+    choices: credentialStoreNames,
+    nargs: 1,
+    string: true,
+    ...(defaultStore !== undefined && { default: defaultStore }),
+  })
+}
+
+function addEndpointOptions<T>(yargs: Argv<T>): Argv<T> {
+  return yargs
+    .option('jurisdiction', {
+      description: 'The jurisdiction the buckets live in (uses <account>.<jurisdiction>.r2.cloudflarestorage.com).',
+      choices: jurisdictions,
+      nargs: 1,
+      string: true,
+    })
+    .option('endpoint', {
+      description: 'Talk to this S3-compatible endpoint instead of R2 (e.g. http://localhost:9000 for MinIO).',
+      nargs: 1,
+      string: true,
+      conflicts: 'jurisdiction',
+    })
+}
+
+const createProgressBar: ProgressBarCreator = (options) => {
+  const bar = new cliProgress.SingleBar({
+    format: options.unknownTotal ?
+      `${options.description} | {value} bytes sent | {speed}` :
+      `${options.description} | ${colors.cyan('{bar}')} | {percentage}% | {value}/{total} | {eta_formatted} | {speed}`,
+  }, cliProgress.Presets.shades_classic)
+  return bar
+}
+
+// Colors are for someone reading a terminal and only get in the way of output piped into another program.
+if (!process.stdout.isTTY) {
+  colors.enabled = false
+}
+
+const newCredsStoreDescription =
+  'Where to save the secret. Defaults to the OS keychain, falling back to the encrypted file if no keychain is available.'
+
 const argv =
   yargs(process.argv.slice(2))
     .usage('Usage: r2 <command> [options]')
@@ -18,8 +70,47 @@ const argv =
     .command(['config', 'cfg'], 'Work with the configuration', (yargs) => {
       yargs
         .command('import', 'Import your configuration from another tool', (yargs) => {
-          yargs.option('r', { alias: 'rclone' })
+          addStoreOption(
+            yargs.option('r', { alias: 'rclone' }).option('aws', {
+              boolean: true,
+              nargs: 0,
+              description:
+                'Import AWS CLI profiles whose endpoint_url points at R2 from ~/.aws/config and ~/.aws/credentials',
+              conflicts: 'rclone',
+            }),
+            newCredsStoreDescription,
+          )
         }, importConfig)
+        .command('export', 'Export your profiles for use by another tool', (yargs) => {
+          yargs
+            .option('format', {
+              alias: 'f',
+              description: 'The tool to export the profiles for.',
+              choices: ['rclone', 'aws', 'env'],
+              nargs: 1,
+              string: true,
+              demandOption: true,
+            })
+            .option('profile', {
+              alias: 'p',
+              description: 'Only export this profile (required for the env format if there is more than one).',
+              nargs: 1,
+              string: true,
+            })
+            .option('write', {
+              alias: 'w',
+              description:
+                `Merge into the tool's configuration files (e.g. ~/.config/rclone/rclone.conf or ~/.aws/config & ~/.aws/credentials) instead of printing to stdout.`,
+              boolean: true,
+              nargs: 0,
+            })
+            .option('overwrite', {
+              description: 'When writing, replace sections that already exist with the same name.',
+              boolean: true,
+              nargs: 0,
+              implies: 'write',
+            })
+        }, exportConfigCommand)
         .command(['add <name> <account>', 'init'], 'Add an R2 account profile', (yargs) => {
           yargs
             .positional('name', {
@@ -34,6 +125,13 @@ const argv =
               demandOption: true,
             })
             .demandOption(['name', 'account'])
+            .option('buckets', {
+              description:
+                'For bucket-scoped tokens, the bucket names (or patterns like logs-*) the token has access to.',
+              string: true,
+              array: true,
+            })
+          addEndpointOptions(addStoreOption(yargs, newCredsStoreDescription))
         }, initConfigCommand)
         .command('rm <name|account>', 'Remove by profile name or account', (yargs) => {
           yargs.positional('name', {
@@ -43,13 +141,60 @@ const argv =
             demandOption: true,
           })
         }, removeConfigCommand)
+        .command('rotate <profile>', `Replace a profile's token with a new one`, (yargs) => {
+          yargs.positional('profile', {
+            type: 'string',
+            description:
+              'The profile to rotate. The old token secret is removed once the new token validates and is saved.',
+            demandOption: true,
+          })
+        }, rotateCredsCommand)
         .command(['list', 'ls'], 'List R2 accounts that are configured', () => {}, listConfigsCommand)
+        .command('use [profile]', 'Set the profile to use by default', (yargs) => {
+          yargs
+            .positional('profile', { type: 'string', description: 'The name of the profile to use by default' })
+            .option('unset', {
+              description: 'Clear the default profile instead of setting one.',
+              boolean: true,
+              nargs: 0,
+              conflicts: 'profile',
+            })
+            .check((argv) => {
+              if (argv['profile'] === undefined && !argv['unset']) {
+                throw new Error('Either a profile or --unset is required')
+              }
+              return true
+            })
+        }, useProfileCommand)
+        .command(
+          'current',
+          'Show which profile commands will use (and why) when --account is not given',
+          () => {},
+          currentProfileCommand,
+        )
+        .command('which <bucket>', 'Explain which profile will be used for a bucket', (yargs) => {
+          yargs
+            .positional('bucket', { type: 'string', description: 'The name of the bucket', demandOption: true })
+            .option('account', {
+              alias: 'a',
+              description: 'The account or profile that would be passed to --account.',
+              nargs: 1,
+              string: true,
+            })
+        }, whichProfileCommand)
+        .command(
+          'doctor',
+          'Check that the configuration is valid and every profile has working credentials',
+          () => {},
+          doctorCommand,
+        )
         .command('list-creds <account>', 'List all R2 credentials saved', (yargs) => {
           yargs.positional('account', {
             type: 'string',
             description: 'The Cloudflare account ID to list saved R2 tokens for',
             demandOption: true,
           })
+          addEndpointOptions(addStoreOption(yargs, 'The credential store to look in.', 'keychain'))
         }, listCredsCommand)
         .command('rm-cred <account> [access-key-id]', 'List all R2 credentials saved', (yargs) => {
           yargs
@@ -63,6 +208,7 @@ const argv =
               description:
                 'The token ID to remove. If not specified you will be prompted to confirm which one to remove.',
             })
+          addEndpointOptions(addStoreOption(yargs, 'The credential store to remove the token from.', 'keychain'))
         }, removeCredCommand)
         .demandCommand(1, 1)
         .help('h')
@@ -71,18 +217,171 @@ const argv =
         .strict()
     })
     .command('s3', 'Perform an action against the S3 endpoint', (yargs) => {
-      buildS3Commands((argv, cmd, moreHeaders) =>
-        handleS3Cmd(argv as ArgumentsCamelCase<GenericCmdArgs>, cmd, (options) => {
-          const bar = new cliProgress
-            .SingleBar({
-            format: `${options.description} | ${
-              colors.cyan('{bar}')
-            } | {percentage}% | {value}/{total} | {eta_formatted} | {speed}`,
-          }, cliProgress.Presets.shades_classic)
-          return bar
-        }, moreHeaders)
-          .then(() => process.exit()), yargs)
+      buildS3Commands(
+        (argv, cmd, moreHeaders) =>
+          handleS3Cmd(argv as ArgumentsCamelCase<GenericCmdArgs>, cmd, createProgressBar, moreHeaders).then(() =>
+            process.exit()
+          ),
+        yargs,
+        createProgressBar,
+      )
     })
+    .command(
+      'cp <source> <destination>',
+      'Copy files to, from or within R2. Either side can be a local path or r2://[profile@]bucket/key.',
+      (yargs) =>
+        addVerboseOption(addAccountArg(addObjectMetadataOptions(yargs)))
+          .positional('source', { type: 'string', demandOption: true })
+          .positional('destination', { type: 'string', demandOption: true })
+          .option('recursive', {
+            alias: 'r',
+            boolean: true,
+            nargs: 0,
+            description: 'Copy everything in the source directory or under the source prefix.',
+          })
+          .option('concurrency', { nargs: 1, number: true, default: 4, description: 'How many files to copy at once.' })
+          .option('overwrite', {
+            choices: overwritePolicies,
+            default: 'always' as const,
+            description: 'Whether to replace what\'s already at the destination. "newer" only replaces older copies.',
+          })
+          .strict(),
+      (argv) => cpCommand(argv as ArgumentsCamelCase<CpArgs>, createProgressBar).then(() => process.exit()),
+    )
+    .command(
+      'sync <source> <destination>',
+      'Make a prefix match a local directory or the other way around, only transferring what has changed.',
+      (yargs) =>
+        addVerboseOption(addAccountArg(addObjectMetadataOptions(yargs)))
+          .positional('source', { type: 'string', demandOption: true })
+          .positional('destination', { type: 'string', demandOption: true })
+          .option('checksum', {
+            boolean: true,
+            nargs: 0,
+            description: 'Compare MD5s with ETags rather than modification times when the sizes match.',
+          })
+          .option('delete', {
+            boolean: true,
+            nargs: 0,
+            description: 'Delete whatever is in the destination but not in the source.',
+          })
+          .option('dry-run', {
+            boolean: true,
+            nargs: 0,
+            description: 'Print what would be transferred and deleted without doing it.',
+          })
+          .option('concurrency', {
+            nargs: 1,
+            number: true,
+            default: 4,
+            description: 'How many files to transfer at once.',
+          })
+          .strict(),
+      (argv) => syncCommand(argv as ArgumentsCamelCase<SyncArgs>, createProgressBar).then(() => process.exit()),
+    )
+    .command(
+      'ls [location]',
+      'List the "directories" and objects at r2://[profile@]bucket/prefix, or every bucket if no location is given.',
+      (yargs) =>
+        addVerboseOption(addAccountArg(yargs))
+          .positional('location', { type: 'string' })
+          .option('long', {
+            alias: 'l',
+            boolean: true,
+            nargs: 0,
+            description: 'Also show the ETag and storage class of each object.',
+          })
+          .strict(),
+      (argv) => lsCommand(argv as ArgumentsCamelCase<LsArgs>).then(() => process.exit()),
+    )
+    .command(
+      'du <location>',
+      'Total up the objects and bytes under r2://[profile@]bucket/prefix and each "directory" in it.',
+      (yargs) =>
+        addVerboseOption(addAccountArg(yargs))
+          .positional('location', { type: 'string', demandOption: true })
+          .option('depth', {
+            alias: 'd',
+            nargs: 1,
+            number: true,
+            default: 1,
+            description: 'How many levels of "directories" to show totals for. 0 only shows the overall total.',
+          })
+          .strict(),
+      (argv) => duCommand(argv as ArgumentsCamelCase<DuArgs>).then(() => process.exit()),
+    )
+    .command(
+      'find <location>',
+      'Find the objects under r2://[profile@]bucket/prefix that match all of the given tests.',
+      (yargs) =>
+        addVerboseOption(addAccountArg(yargs))
+          .positional('location', { type: 'string', demandOption: true })
+          .option('name', {
+            nargs: 1,
+            description: 'Only objects whose name (the part of the key after the last /) matches this glob.',
+            coerce: globToRegExp,
+          })
+          .option('regex', {
+            nargs: 1,
+            description: 'Only objects whose whole key matches this regular expression.',
+            coerce: parseRegExp,
+          })
+          .option('size', {
+            type: 'string',
+            array: true,
+            description:
+              'Only objects bigger (+N), smaller (-N) or exactly N in size, e.g. +100MiB or --size=-1KiB. Can be repeated.',
+            coerce: (sizes: string[]) => sizes.map(parseSizePredicate),
+          })
+          .option('newer', {
+            nargs: 1,
+            description: 'Only objects modified after this date or this long ago (e.g. 2024-01-01 or 7d).',
+            coerce: parseTime,
+          })
+          .option('older', {
+            nargs: 1,
+            description: 'Only objects modified before this date or this long ago (e.g. 30d).',
+            coerce: parseTime,
+          })
+          .option('meta', {
+            string: true,
+            array: true,
+            description:
+              'Only objects with x-amz-meta-<k> set to <v>, given as k=v. Looks up the metadata of each object that matches everything else. Can be repeated.',
+          })
+          .option('print0', {
+            boolean: true,
+            nargs: 0,
+            description: 'Separate the keys printed with NUL rather than newlines, for xargs -0.',
+          })
+          .option('delete', {
+            boolean: true,
+            nargs: 0,
+            description: 'Delete the objects found, after confirming.',
+            conflicts: ['print0', 'exec'],
+          })
+          .option('yes', {
+            alias: 'y',
+            boolean: true,
+            nargs: 0,
+            description: 'Delete without asking for confirmation first.',
+          })
+          .option('exec', {
+            string: true,
+            nargs: 1,
+            description:
+              "Run an s3 command for each object found, with {} replaced by its key and {bucket} by its bucket, e.g. 'head-object {bucket} {}'.",
+            conflicts: 'print0',
+          })
+          .option('concurrency', {
+            nargs: 1,
+            number: true,
+            default: 8,
+            description: 'How many metadata lookups (or batches of deletes) to have in flight at once.',
+          })
+          .strict(),
+      (argv) => findCommand(argv as ArgumentsCamelCase<FindArgs>, createProgressBar).then(() => process.exit()),
+    )
     .demandCommand(1, 1)
     .strict()
     .help('h')
@@ -0,0 +1,580 @@
+import * as S3 from '@aws-sdk/client-s3'
+import * as AWSTypes from '@aws-sdk/types'
+import { Readable } from 'node:stream'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { Err, Ok, Result } from 'ts-results'
+import { readFileRange, readStructuredFile } from './util'
+
+// Limits R2 places on multipart uploads. Every part but the last must be at least minPartSize.
+export const minPartSize = 5 * 1024 ** 2
+export const maxPartSize = 5 * 1024 ** 3
+export const maxParts = 10000
+
+export const defaultMultipartThreshold = 64 * 1024 ** 2
+export const defaultPartSize = 16 * 1024 ** 2
+export const defaultConcurrency = 4
+
+// R2 copies objects up to this size with a single CopyObject. Larger ones have to be copied part by part. Copied parts
+// don't pass through the client so they can be much bigger than uploaded ones.
+export const maxCopyObjectSize = 5 * 1024 ** 3
+export const defaultCopyPartSize = 512 * 1024 ** 2
+
+// How many times a part is attempted before the whole upload is given up on.
+const partAttempts = 4
+
+export interface MultipartUpload {
+  Bucket: string
+  Key: string
+  UploadId: string
+}
+
+export interface MultipartOptions {
+  partSize: number
+  concurrency: number
+}
+
+export interface CopySourceConditions {
+  CopySourceIfMatch?: string
+  CopySourceIfNoneMatch?: string
+  CopySourceIfModifiedSince?: Date
+  CopySourceIfUnmodifiedSince?: Date
+}
+
+export interface FilePart {
+  PartNumber: number
+  start: number
+  length: number
+}
+
+export function validateMultipartOptions(options: MultipartOptions): Result<void, Error> {
+  if (!Number.isInteger(options.partSize) || options.partSize < minPartSize || options.partSize > maxPartSize) {
+    return Err(new Error(`The part size must be between ${minPartSize} and ${maxPartSize} bytes`))
+  }
+  if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+    return Err(new Error('The concurrency must be a positive integer'))
+  }
+  return Ok.EMPTY
+}
+
+// Grows the requested part size (in whole MiB) if the file would otherwise need more than maxParts parts.
+export function partSizeFor(size: number, requested: number): number {
+  if (Math.ceil(size / requested) <= maxParts) {
+    return requested
+  }
+  return Math.ceil(size / maxParts / 1024 ** 2) * 1024 ** 2
+}
+
+export function fileParts(size: number, partSize: number): FilePart[] {
+  // An upload needs at least one part, even if it's empty.
+  if (size === 0) {
+    return [{ PartNumber: 1, start: 0, length: 0 }]
+  }
+
+  const parts: FilePart[] = []
+  for (let start = 0; start < size; start += partSize) {
+    parts.push({ PartNumber: parts.length + 1, start, length: Math.min(partSize, size - start) })
+  }
+  return parts
+}
+
+export function describeError(e: unknown): string {
+  const err = e as Error & Partial<AWSTypes.MetadataBearer>
+  const status = err.$metadata?.httpStatusCode
+  return status !== undefined ? `${status} ${err.message}` : err.message
+}
+
+// The SDK retries a request a couple of times itself. Parts get retried again on top of that, with a backoff, so that a
+// longer blip doesn't throw away the whole upload.
+export async function withRetries<T>(what: string, signal: AbortSignal, attempt: () => Promise<T>): Promise<T> {
+  for (let i = 1;; i++) {
+    try {
+      return await attempt()
+    } catch (e) {
+      // Client errors (e.g. a failed precondition) won't go away by trying again, apart from being throttled.
+      const status = (e as Partial<AWSTypes.MetadataBearer>).$metadata?.httpStatusCode ?? 0
+      if (signal.aborted || i === partAttempts || (status >= 400 && status < 500 && status !== 429)) {
+        throw e
+      }
+      const delay = 500 * 2 ** i
+      console.warn(`${what} failed (${describeError(e)}), retrying in ${delay / 1000}s`)
+      await sleep(delay)
+    }
+  }
+}
+
+export async function uploadPart(
+  client: S3.S3,
+  upload: MultipartUpload,
+  PartNumber: number,
+  body: Buffer,
+  signal: AbortSignal,
+): Promise<S3.CompletedPart> {
+  return withRetries(`Uploading part ${PartNumber}`, signal, async () => {
+    const response = await client.send(
+      new S3.UploadPartCommand({ ...upload, PartNumber, Body: body, ContentLength: body.length }),
+      // The SDK declares its own, older AbortSignal type that the global one isn't quite compatible with.
+      { abortSignal: signal as unknown as AWSTypes.AbortSignal },
+    )
+    return { PartNumber, ETag: response.ETag }
+  })
+}
+
+// Runs `each` for every part with up to `concurrency` in flight at once. The first part to fail for good stops the
+// rest.
+export async function forEachPart<P>(
+  parts: P[],
+  concurrency: number,
+  signal: AbortSignal,
+  each: (part: P, signal: AbortSignal) => Promise<void>,
+): Promise<void> {
+  const controller = new AbortController()
+  signal.addEventListener('abort', () => controller.abort(), { once: true })
+
+  let next = 0
+  const worker = async () => {
+    while (next < parts.length && !controller.signal.aborted) {
+      await each(parts[next++]!, controller.signal)
+    }
+  }
+
+  // The parts that get stopped fail too, so it's the failure that stopped them that's reported rather than whichever
+  // part happens to come first.
+  let failure: { reason: unknown } | undefined
+  await Promise.all(Array.from({ length: Math.min(concurrency, parts.length) }, () =>
+    worker().catch((e) => {
+      failure ??= { reason: e }
+      controller.abort()
+    })))
+
+  if (failure !== undefined) {
+    throw failure.reason
+  }
+}
+
+// Uploads the given parts of a file with up to `concurrency` in flight at once. Each part is read into memory so that
+// it can be sent again if it needs to be retried.
+export async function uploadFileParts(
+  client: S3.S3,
+  upload: MultipartUpload,
+  file: string,
+  parts: FilePart[],
+  concurrency: number,
+  signal: AbortSignal,
+  onPartUploaded: (part: FilePart, completed: S3.CompletedPart) => void | Promise<void>,
+): Promise<void> {
+  await forEachPart(parts, concurrency, signal, async (part, signal) => {
+    const body = await readFileRange(file, part.start, part.length)
+    const completed = await uploadPart(client, upload, part.PartNumber, body, signal)
+    await onPartUploaded(part, completed)
+  })
+}
+
+export async function completeUpload(
+  client: S3.S3,
+  upload: MultipartUpload,
+  parts: S3.CompletedPart[],
+): Promise<S3.CompleteMultipartUploadCommandOutput> {
+  return client.send(
+    new S3.CompleteMultipartUploadCommand({
+      ...upload,
+      MultipartUpload: { Parts: [...parts].sort((a, b) => a.PartNumber! - b.PartNumber!) },
+    }),
+  )
+}
+
+// An upload that's already gone (completed, aborted or expired) counts as aborted.
+export async function abortUpload(client: S3.S3, upload: MultipartUpload): Promise<boolean> {
+  try {
+    await client.send(new S3.AbortMultipartUploadCommand(upload))
+    return true
+  } catch (e) {
+    if ((e as Error).name === 'NoSuchUpload') {
+      return true
+    }
+    console.error(
+      `Unable to abort multipart upload ${upload.UploadId} (${
+        describeError(e)
+      }). Remove it with abort-multipart-upload or a lifecycle rule so it doesn't keep using storage.`,
+    )
+    return false
+  }
+}
+
+let interruptAnnounced = false
+
+// Aborts `controller` on Ctrl-C for as long as `during` runs so that an interrupted upload can be cleaned up rather than
+// the process dying mid-request. The handler stays installed since the signal can arrive more than once (e.g. from
+// the terminal and relayed again by tsx).
+export async function abortOnInterrupt<T>(controller: AbortController, during: () => Promise<T>): Promise<T> {
+  const onInterrupt = () => {
+    if (!controller.signal.aborted) {
+      // Transfers within a transfer (e.g. a multipart upload as part of cp) each clean up, but only one says so.
+      if (!interruptAnnounced) {
+        console.error('\nInterrupted, cleaning up...')
+        interruptAnnounced = true
+      }
+      controller.abort()
+    }
+  }
+  process.on('SIGINT', onInterrupt)
+  try {
+    return await during()
+  } finally {
+    process.off('SIGINT', onInterrupt)
+  }
+}
+
+// Uploads a file with CreateMultipartUpload/UploadPart/CompleteMultipartUpload. The upload is aborted if any part fails
+// for good or the user hits Ctrl-C so that no incomplete upload is left behind.
+export async function putFileMultipart(
+  client: S3.S3,
+  input: S3.CreateMultipartUploadCommandInput & { Bucket: string; Key: string },
+  file: string,
+  size: number,
+  options: MultipartOptions,
+  onProgress: (bytes: number) => void,
+): Promise<Result<S3.CompleteMultipartUploadCommandOutput, Error>> {
+  const partSize = partSizeFor(size, options.partSize)
+  if (partSize !== options.partSize) {
+    console.warn(`Using ${partSize} byte parts to stay within the ${maxParts} part limit`)
+  }
+
+  let created: S3.CreateMultipartUploadCommandOutput
+  try {
+    created = await client.send(new S3.CreateMultipartUploadCommand(input))
+  } catch (e) {
+    return Err(new Error(`Unable to start multipart upload: ${describeError(e)}`))
+  }
+  const upload = { Bucket: input.Bucket, Key: input.Key, UploadId: created.UploadId! }
+
+  const controller = new AbortController()
+  const completed: S3.CompletedPart[] = []
+  try {
+    await abortOnInterrupt(
+      controller,
+      () =>
+        uploadFileParts(
+          client,
+          upload,
+          file,
+          fileParts(size, partSize),
+          options.concurrency,
+          controller.signal,
+          (part, done) => {
+            completed.push(done)
+            onProgress(part.length)
+          },
+        ),
+    )
+    return Ok(await completeUpload(client, upload, completed))
+  } catch (e) {
+    const aborted = await abortUpload(client, upload)
+    const cleanup = aborted ? `, aborted multipart upload ${upload.UploadId}` : ''
+    if (controller.signal.aborted) {
+      return Err(new Error(`Upload interrupted${cleanup}`))
+    }
+    return Err(new Error(`Upload failed${cleanup}: ${describeError(e)}`))
+  }
+}
+
+// Cuts a stream into buffers of exactly `partSize` bytes. Only the last one may be shorter.
+async function* streamParts(stream: Readable, partSize: number): AsyncGenerator<Buffer> {
+  let pending: Buffer[] = []
+  let pendingLength = 0
+  for await (const chunk of stream) {
+    let data = chunk as Buffer
+    while (pendingLength + data.length >= partSize) {
+      const take = partSize - pendingLength
+      pending.push(data.subarray(0, take))
+      yield Buffer.concat(pending)
+      pending = []
+      pendingLength = 0
+      data = data.subarray(take)
+    }
+    if (data.length !== 0) {
+      pending.push(data)
+      pendingLength += data.length
+    }
+  }
+  if (pendingLength !== 0) {
+    yield Buffer.concat(pending)
+  }
+}
+
+// Uploads a stream of unknown length (e.g. stdin or a FIFO) as a multipart upload by buffering it into parts of
+// `options.partSize`. At most `options.concurrency` parts are in flight, with one more being read, so memory use stays
+// bounded. Streams that end before filling a second part are sent with a single PutObject instead. Like
+// putFileMultipart, the upload is aborted if it fails or is interrupted.
+export async function putStreamMultipart(
+  client: S3.S3,
+  input: S3.CreateMultipartUploadCommandInput & { Bucket: string; Key: string },
+  stream: Readable,
+  options: MultipartOptions,
+  onProgress: (bytes: number) => void,
+): Promise<Result<S3.CompleteMultipartUploadCommandOutput | S3.PutObjectCommandOutput, Error>> {
+  const parts = streamParts(stream, options.partSize)
+  let first: IteratorResult<Buffer>
+  let second: IteratorResult<Buffer>
+  try {
+    first = await parts.next()
+    second = first.done ? first : await parts.next()
+  } catch (e) {
+    return Err(new Error(`Unable to read the input: ${(e as Error).message}`))
+  }
+
+  if (second.done) {
+    const body = first.done ? Buffer.alloc(0) : first.value
+    try {
+      const response = await client.send(new S3.PutObjectCommand({ ...input, Body: body, ContentLength: body.length }))
+      onProgress(body.length)
+      return Ok(response)
+    } catch (e) {
+      return Err(new Error(`Upload failed: ${describeError(e)}`))
+    }
+  }
+
+  let created: S3.CreateMultipartUploadCommandOutput
+  try {
+    created = await client.send(new S3.CreateMultipartUploadCommand(input))
+  } catch (e) {
+    return Err(new Error(`Unable to start multipart upload: ${describeError(e)}`))
+  }
+  const upload = { Bucket: input.Bucket, Key: input.Key, UploadId: created.UploadId! }
+
+  // `interrupted` is only aborted by Ctrl-C while `controller` also stops the other parts when one fails.
+  const interrupted = new AbortController()
+  const controller = new AbortController()
+  interrupted.signal.addEventListener('abort', () => controller.abort(), { once: true })
+  const completed: S3.CompletedPart[] = []
+  const inFlight = new Set<Promise<void>>()
+  let failure: unknown
+  const start = (PartNumber: number, body: Buffer) => {
+    const sending: Promise<void> = uploadPart(client, upload, PartNumber, body, controller.signal)
+      .then((done) => {
+        completed.push(done)
+        onProgress(body.length)
+      })
+      .catch((e) => {
+        failure ??= e
+        controller.abort()
+      })
+      .finally(() => inFlight.delete(sending))
+    inFlight.add(sending)
+  }
+
+  try {
+    await abortOnInterrupt(interrupted, async () => {
+      start(1, first.value as Buffer)
+      // The second part has already been read to decide whether this is a multipart upload at all.
+      let next: IteratorResult<Buffer> = second
+      for (let PartNumber = 2; !next.done; PartNumber++) {
+        if (PartNumber > maxParts) {
+          throw new Error(
+            `The input is larger than ${maxParts} parts of ${options.partSize} bytes. Use a larger --part-size.`,
+          )
+        }
+        while (inFlight.size >= options.concurrency) {
+          await Promise.race(inFlight)
+        }
+        if (controller.signal.aborted) {
+          break
+        }
+        start(PartNumber, next.value)
+        next = await parts.next()
+      }
+      await Promise.all(inFlight)
+      if (failure !== undefined || controller.signal.aborted) {
+        throw failure
+      }
+    })
+    return Ok(await completeUpload(client, upload, completed))
+  } catch (e) {
+    controller.abort()
+    await Promise.all(inFlight)
+    const aborted = await abortUpload(client, upload)
+    const cleanup = aborted ? `, aborted multipart upload ${upload.UploadId}` : ''
+    if (interrupted.signal.aborted) {
+      return Err(new Error(`Upload interrupted${cleanup}`))
+    }
+    return Err(new Error(`Upload failed${cleanup}: ${describeError(e)}`))
+  }
+}
+
+// The bucket and key of an object in the form CopySource expects. The key has to be URL encoded but its slashes can
+// stay as they are.
+export function copySource(bucket: string, key: string): string {
+  return `${bucket}/${encodeURIComponent(key).replace(/%2F/g, '/')}`
+}
+
+async function copyPart(
+  client: S3.S3,
+  upload: MultipartUpload,
+  part: FilePart,
+  source: string,
+  conditions: CopySourceConditions,
+  signal: AbortSignal,
+): Promise<S3.CompletedPart> {
+  return withRetries(`Copying part ${part.PartNumber}`, signal, async () => {
+    const response = await client.send(
+      new S3.UploadPartCopyCommand({
+        ...upload,
+        ...conditions,
+        PartNumber: part.PartNumber,
+        CopySource: source,
+        CopySourceRange: `bytes=${part.start}-${part.start + part.length - 1}`,
+      }),
+      { abortSignal: signal as unknown as AWSTypes.AbortSignal },
+    )
+    return { PartNumber: part.PartNumber, ETag: response.CopyPartResult?.ETag }
+  })
+}
+
+// Copies an object too large for CopyObject with UploadPartCopy. `conditions` are sent with every part, so pinning the
+// source's ETag in them makes the copy fail rather than mix two versions of a source overwritten part way through.
+// Like putFileMultipart, the upload is aborted if it fails or is interrupted.
+export async function copyObjectMultipart(
+  client: S3.S3,
+  input: S3.CreateMultipartUploadCommandInput & { Bucket: string; Key: string },
+  source: string,
+  size: number,
+  conditions: CopySourceConditions,
+  options: MultipartOptions,
+  onProgress: (bytes: number) => void,
+): Promise<Result<S3.CompleteMultipartUploadCommandOutput, Error>> {
+  const partSize = partSizeFor(size, options.partSize)
+  let created: S3.CreateMultipartUploadCommandOutput
+  try {
+    created = await client.send(new S3.CreateMultipartUploadCommand(input))
+  } catch (e) {
+    return Err(new Error(`Unable to start multipart upload: ${describeError(e)}`))
+  }
+  const upload = { Bucket: input.Bucket, Key: input.Key, UploadId: created.UploadId! }
+
+  const controller = new AbortController()
+  const completed: S3.CompletedPart[] = []
+  try {
+    await abortOnInterrupt(
+      controller,
+      () =>
+        forEachPart(fileParts(size, partSize), options.concurrency, controller.signal, async (part, signal) => {
+          completed.push(await copyPart(client, upload, part, source, conditions, signal))
+          onProgress(part.length)
+        }),
+    )
+    return Ok(await completeUpload(client, upload, completed))
+  } catch (e) {
+    const aborted = await abortUpload(client, upload)
+    const cleanup = aborted ? `, aborted multipart upload ${upload.UploadId}` : ''
+    if (controller.signal.aborted) {
+      return Err(new Error(`Copy interrupted${cleanup}`))
+    }
+    return Err(new Error(`Copy failed${cleanup}: ${describeError(e)}`))
+  }
+}
+
+// Copies an object with a single CopyObject if it's small enough and part by part otherwise. Copying in parts can take
+// a while so `onMultipart` is told the size before it starts and returns where to report progress to.
+export async function copyObject(
+  client: S3.S3,
+  input: S3.CreateMultipartUploadCommandInput & { Bucket: string; Key: string },
+  source: { Bucket: string; Key: string },
+  conditions: CopySourceConditions,
+  replaceMetadata: boolean,
+  options: MultipartOptions,
+  onMultipart: (size: number) => (bytes: number) => void,
+): Promise<Result<S3.CopyObjectCommandOutput | S3.CompleteMultipartUploadCommandOutput, Error>> {
+  let head: S3.HeadObjectCommandOutput
+  try {
+    // The conditions are left to the copy itself so that they fail the same way however the object is copied.
+    head = await client.send(new S3.HeadObjectCommand(source))
+  } catch (e) {
+    return Err(new Error(describeError(e)))
+  }
+
+  const size = head.ContentLength!
+  if (size <= maxCopyObjectSize) {
+    try {
+      return Ok(
+        await client.send(
+          new S3.CopyObjectCommand({
+            ...input,
+            ...conditions,
+            CopySource: copySource(source.Bucket, source.Key),
+            MetadataDirective: replaceMetadata ? 'REPLACE' : 'COPY',
+          }),
+        ),
+      )
+    } catch (e) {
+      return Err(new Error(describeError(e)))
+    }
+  }
+
+  // Parts only carry the data, so the source's metadata has to be copied over by hand.
+  const metadata = replaceMetadata ?
+    {} :
+    {
+      CacheControl: head.CacheControl,
+      ContentDisposition: head.ContentDisposition,
+      ContentEncoding: head.ContentEncoding,
+      ContentLanguage: head.ContentLanguage,
+      ContentType: head.ContentType,
+      Expires: head.Expires,
+      Metadata: head.Metadata,
+    }
+  return copyObjectMultipart(
+    client,
+    { ...input, ...metadata },
+    copySource(source.Bucket, source.Key),
+    size,
+    { ...conditions, CopySourceIfMatch: conditions.CopySourceIfMatch ?? head.ETag },
+    options,
+    onMultipart(size),
+  )
+}
+
+// Accepts `{ "Parts": [{ "PartNumber": 1, "ETag": "..." }, ...] }` or in JSON just the list of parts. Other fields on
+// each part (e.g. Size and LastModified from list-parts) are ignored so that list-parts output can be reused as is.
+export function parsePartsManifest(raw: unknown): Result<S3.CompletedPart[], Error> {
+  const parts = typeof raw === 'object' && raw !== null && !Array.isArray(raw) ?
+    (raw as Record<string, unknown>)['Parts'] :
+    raw
+  if (!Array.isArray(parts) || parts.length === 0) {
+    return Err(new Error('Parts must be a non-empty list of parts'))
+  }
+
+  const problems: string[] = []
+  const seen = new Set<number>()
+  const completed = (parts as unknown[]).map((part, idx) => {
+    const { PartNumber, ETag } = (typeof part === 'object' && part !== null ? part : {}) as Record<string, unknown>
+    if (!Number.isInteger(PartNumber) || (PartNumber as number) < 1 || (PartNumber as number) > maxParts) {
+      problems.push(`Parts[${idx}].PartNumber must be an integer between 1 and ${maxParts}`)
+    } else if (seen.has(PartNumber as number)) {
+      problems.push(`Parts[${idx}].PartNumber ${PartNumber} appears more than once`)
+    } else {
+      seen.add(PartNumber as number)
+    }
+    if (typeof ETag !== 'string' || ETag === '') {
+      problems.push(`Parts[${idx}].ETag must be a non-empty string`)
+    }
+    return { PartNumber: PartNumber as number, ETag: ETag as string }
+  })
+
+  if (problems.length !== 0) {
+    return Err(new Error(problems.join('\n')))
+  }
+  return Ok(completed.sort((a, b) => a.PartNumber - b.PartNumber))
+}
+
+// Reads a parts manifest from a JSON or TOML file (`-` for stdin).
+export async function loadPartsManifest(path: string): Promise<Result<S3.CompletedPart[], Error>> {
+  const file = await readStructuredFile(path)
+  if (file.err) {
+    return Err(new Error(`Unable to load the parts manifest. ${file.val.message}`))
+  }
+
+  const parts = parsePartsManifest(file.val.raw)
+  if (parts.err) {
+    return Err(new Error(`Invalid parts manifest in ${file.val.source}:\n${parts.val.message}`))
+  }
+  return parts
+}
@@ -0,0 +1,255 @@
+import colors from 'ansi-colors'
+import { sizeFormatter } from 'human-readable'
+import { search } from 'jmespath'
+import { inspect } from 'node:util'
+
+export const outputFormats = ['json', 'jsonl', 'yaml', 'table', 'text'] as const
+export type OutputFormat = typeof outputFormats[number]
+
+export interface OutputOptions {
+  // Without a format responses are pretty printed for reading.
+  format?: OutputFormat
+  showMetadata: boolean
+  // A JMESPath expression applied to the response before it's rendered.
+  query?: string
+}
+
+type Entry = Record<string, unknown>
+
+// How the fields that listings share are displayed in a table. Everything else is shown as is.
+const columnFormats: Record<string, 'size' | 'date'> = {
+  Size: 'size',
+  LastModified: 'date',
+  CreationDate: 'date',
+  Initiated: 'date',
+}
+
+// Responses that are a list of things are rendered as a row per entry in table, text and jsonl output. Every field of
+// an SDK response is present (if undefined) so an empty listing is still recognized as one.
+interface Listing {
+  field: string
+  entries: (response: Entry) => Entry[]
+  columns: string[]
+}
+
+function entriesOf(response: Entry, field: string): Entry[] {
+  return response[field] as Entry[] | undefined ?? []
+}
+
+const listings: Listing[] = [
+  {
+    field: 'Contents',
+    // Common prefixes are listed before the objects, like directories.
+    entries: (response) => [
+      ...entriesOf(response, 'CommonPrefixes').map(({ Prefix }) => ({ Key: Prefix })),
+      ...entriesOf(response, 'Contents'),
+    ],
+    columns: ['Key', 'Size', 'LastModified', 'ETag'],
+  },
+  { field: 'Buckets', entries: (response) => entriesOf(response, 'Buckets'), columns: ['Name', 'CreationDate'] },
+  {
+    field: 'Uploads',
+    entries: (response) => entriesOf(response, 'Uploads'),
+    columns: ['Key', 'UploadId', 'Initiated'],
+  },
+  {
+    field: 'Parts',
+    entries: (response) => entriesOf(response, 'Parts'),
+    columns: ['PartNumber', 'Size', 'LastModified', 'ETag'],
+  },
+  {
+    field: 'Deleted',
+    entries: (response) => [
+      ...entriesOf(response, 'Deleted').map(({ Key }) => ({ Key, Result: 'Deleted' })),
+      ...entriesOf(response, 'Errors').map(({ Key, Code, Message }) => ({ Key, Result: `${Code}: ${Message}` })),
+    ],
+    columns: ['Key', 'Result'],
+  },
+]
+
+const sizeFormat = sizeFormatter({ std: 'IEC', decimalPlaces: 2, keepTrailingZeroes: false })
+
+function rawValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return ''
+  }
+  return value instanceof Date ? value.toISOString() : String(value)
+}
+
+function displayValue(field: string, value: unknown): string {
+  if (columnFormats[field] === 'size' && typeof value === 'number') {
+    return `${sizeFormat(value)}`
+  }
+  return rawValue(value)
+}
+
+function isTable(value: unknown): value is Entry {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
+
+// Turns nested fields into `Owner.ID` or `CORSRules.0.AllowedOrigins.1` style paths, skipping anything unset.
+function flatten(value: unknown, path: string, into: [string, unknown][]): [string, unknown][] {
+  if (Array.isArray(value)) {
+    value.forEach((item, idx) => flatten(item, `${path}.${idx}`, into))
+  } else if (isTable(value)) {
+    for (const [k, v] of Object.entries(value)) {
+      flatten(v, path === '' ? k : `${path}.${k}`, into)
+    }
+  } else if (value !== undefined) {
+    into.push([path, value])
+  }
+  return into
+}
+
+function renderTable(header: string[], rows: string[][], rightAligned: boolean[]): string {
+  const widths = header.map((title, idx) => Math.max(title.length, ...rows.map((row) => row[idx]!.length)))
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, idx) => rightAligned[idx] ? cell.padStart(widths[idx]!) : cell.padEnd(widths[idx]!))
+      .join('  ')
+      .trimEnd()
+  return [colors.bold(line(header)), ...rows.map(line)].join('\n')
+}
+
+// JSON with quotes doubles as a YAML scalar, so strings are only left bare when they can't be mistaken for anything
+// else.
+function yamlScalar(value: unknown): string {
+  if (value === undefined || value === null) {
+    return 'null'
+  }
+  if (Array.isArray(value)) {
+    return '[]'
+  }
+  if (isTable(value)) {
+    return '{}'
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  if (typeof value !== 'string') {
+    return String(value)
+  }
+  const plain = /^[A-Za-z_/][\w ./@+-]*$/.test(value) &&
+    !value.endsWith(' ') &&
+    !/^(true|false|yes|no|on|off|null|y|n)$/i.test(value)
+  return plain ? value : JSON.stringify(value)
+}
+
+function hasChildren(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length !== 0
+  }
+  return isTable(value) && Object.values(value).some((v) => v !== undefined)
+}
+
+function yamlLines(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (!hasChildren(item)) {
+        return [`${indent}- ${yamlScalar(item)}`]
+      }
+      const [first, ...rest] = yamlLines(item, `${indent}  `)
+      return [`${indent}- ${first!.trimStart()}`, ...rest]
+    })
+  }
+  return Object.entries(value as Entry).filter(([, v]) => v !== undefined).flatMap(([k, v]) =>
+    hasChildren(v) ?
+      [`${indent}${yamlScalar(k)}:`, ...yamlLines(v, `${indent}  `)] :
+      [`${indent}${yamlScalar(k)}: ${yamlScalar(v)}`]
+  )
+}
+
+// Query results that aren't a table of fields are printed plainly, a line per item with nested lists tab separated,
+// unless a structured format is asked for.
+function renderPlain(value: unknown, format: OutputFormat | undefined): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(value, undefined, 2)
+    case 'jsonl':
+      return (Array.isArray(value) ? value : [value]).map((item) => JSON.stringify(item)).join('\n')
+    case 'yaml':
+      return hasChildren(value) ? yamlLines(value, '').join('\n') : yamlScalar(value)
+    case 'table':
+      if (Array.isArray(value) && value.length !== 0 && value.every(isTable)) {
+        const columns = [...new Set(value.flatMap((entry) => Object.keys(entry)))]
+        return renderTable(
+          columns,
+          value.map((entry) => columns.map((field) => displayValue(field, entry[field]))),
+          columns.map((field) => columnFormats[field] === 'size'),
+        )
+      }
+  }
+
+  if (!Array.isArray(value)) {
+    return rawValue(value)
+  }
+  return value
+    .map((item) =>
+      Array.isArray(item) ? item.map(rawValue).join('\t') : isTable(item) ? JSON.stringify(item) : rawValue(item)
+    )
+    .join('\n')
+}
+
+// Renders an SDK response (or a page of a listing) for printing. Empty output comes back as an empty string rather
+// than an empty line.
+export function renderResponse(response: object, options: OutputOptions): string {
+  let shown = response as Entry
+  if (!options.showMetadata) {
+    const { $metadata, ...rest } = shown
+    shown = rest
+  }
+
+  if (options.query !== undefined) {
+    // JMESPath only knows about JSON values, so e.g. dates are turned into strings first.
+    const result: unknown = search(JSON.parse(JSON.stringify(shown)), options.query)
+    if (!isTable(result)) {
+      return renderPlain(result, options.format)
+    }
+    shown = result
+  }
+
+  const listing = listings.find(({ field }) => field in shown)
+  switch (options.format) {
+    case undefined:
+      return inspect(shown, { depth: null, colors: colors.enabled })
+    case 'json':
+      return JSON.stringify(shown, undefined, 2)
+    case 'jsonl':
+      return (listing?.entries(shown) ?? [shown]).map((entry) => JSON.stringify(entry)).join('\n')
+    case 'yaml':
+      return hasChildren(shown) ? yamlLines(shown, '').join('\n') : '{}'
+    case 'table': {
+      if (listing !== undefined) {
+        return renderTable(
+          listing.columns,
+          listing.entries(shown).map((entry) => listing.columns.map((field) => displayValue(field, entry[field]))),
+          listing.columns.map((field) => columnFormats[field] === 'size'),
+        )
+      }
+      const fields = flatten(shown, '', [])
+      return renderTable(['Field', 'Value'], fields.map(([path, value]) => [path, rawValue(value)]), [false, false])
+    }
+    case 'text':
+      // Tab separated with no header and raw values, for cut, awk and friends.
+      if (listing !== undefined) {
+        return listing
+          .entries(shown)
+          .map((entry) => listing.columns.map((field) => rawValue(entry[field])).join('\t'))
+          .join('\n')
+      }
+      return flatten(shown, '', []).map(([path, value]) => `${path}\t${rawValue(value)}`).join('\n')
+  }
+}
+
+// Checks a --query expression up front so that a typo is reported before any request is made. Errors that come from
+// evaluating it against an empty document (e.g. length() of a missing field) are fine here.
+export function validateQuery(query: string): string {
+  try {
+    search({}, query)
+  } catch (e) {
+    if (/^(Lexer|Parser)Error$/i.test((e as Error).name)) {
+      throw new Error(`Invalid --query: ${(e as Error).message}`)
+    }
+  }
+  return query
+}
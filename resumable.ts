@@ -0,0 +1,222 @@
+import * as S3 from '@aws-sdk/client-s3'
+import crypto from 'node:crypto'
+import path from 'node:path'
+import { Err, Ok, Result } from 'ts-results'
+import { abortOnInterrupt, abortUpload, completeUpload, describeError, FilePart, fileParts, MultipartOptions, MultipartUpload, partSizeFor, uploadFileParts } from './multipart'
+import { listDirectory, makeDirectory, readTextFile, removeFile, writeTextFileAtomic } from './util'
+
+// What's recorded locally about an in-progress resumable upload.
+interface Checkpoint {
+  version: 1
+  bucket: string
+  key: string
+  file: string
+  size: number
+  mtimeMs: number
+  uploadId: string
+  partSize: number
+  // part number -> ETag of the parts known to be uploaded
+  parts: Record<string, string>
+}
+
+interface FileFingerprint {
+  file: string
+  size: number
+  mtimeMs: number
+}
+
+// A modified file gets a different checkpoint so that parts of the old contents are never completed into the object.
+function checkpointPath(dir: string, bucket: string, key: string, fingerprint: FileFingerprint): string {
+  const hash = crypto
+    .createHash('sha256')
+    .update(JSON.stringify([bucket, key, fingerprint.file, fingerprint.size, fingerprint.mtimeMs]))
+    .digest('hex')
+  return path.join(dir, `${hash}.json`)
+}
+
+async function readCheckpoint(p: string): Promise<Checkpoint | undefined> {
+  let contents: string
+  try {
+    contents = await readTextFile(p)
+  } catch (e) {
+    return undefined
+  }
+
+  try {
+    const checkpoint = JSON.parse(contents) as Checkpoint
+    return checkpoint.version === 1 ? checkpoint : undefined
+  } catch (e) {
+    console.warn(`Ignoring unreadable upload checkpoint ${p}`)
+    return undefined
+  }
+}
+
+// Checkpoints for the same bucket, key and file under a different fingerprint are left over from uploading an older
+// version of the file. Their parts can never be completed into the object so the uploads are aborted rather than left
+// to use up storage, and the checkpoint is only removed once its upload is gone.
+async function abortStaleUploads(
+  client: S3.S3,
+  checkpointDir: string,
+  checkpointFile: string,
+  input: { Bucket: string; Key: string },
+  file: string,
+): Promise<void> {
+  let names: string[]
+  try {
+    names = await listDirectory(checkpointDir)
+  } catch (e) {
+    return
+  }
+
+  for (const name of names.filter((name) => name.endsWith('.json'))) {
+    const p = path.join(checkpointDir, name)
+    const checkpoint = p === checkpointFile ? undefined : await readCheckpoint(p)
+    if (checkpoint?.bucket !== input.Bucket || checkpoint.key !== input.Key || checkpoint.file !== file) {
+      continue
+    }
+    console.warn(`${file} has changed since upload ${checkpoint.uploadId} was started, aborting that upload`)
+    if (await abortUpload(client, { Bucket: input.Bucket, Key: input.Key, UploadId: checkpoint.uploadId })) {
+      await removeFile(p)
+    }
+  }
+}
+
+async function listAllParts(client: S3.S3, upload: MultipartUpload): Promise<S3.Part[]> {
+  const parts: S3.Part[] = []
+  let PartNumberMarker: string | undefined
+  for (;;) {
+    const response = await client.send(new S3.ListPartsCommand({ ...upload, PartNumberMarker }))
+    parts.push(...response.Parts ?? [])
+    if (!response.IsTruncated || response.NextPartNumberMarker === undefined) {
+      return parts
+    }
+    PartNumberMarker = response.NextPartNumberMarker
+  }
+}
+
+// Only parts that R2 still has with the same ETag and the expected size are trusted. Anything else is uploaded again.
+function verifiedParts(checkpoint: Checkpoint, expected: FilePart[], uploaded: S3.Part[]): S3.CompletedPart[] {
+  const onServer = new Map(uploaded.map((part) => [part.PartNumber, part]))
+  return expected.flatMap(({ PartNumber, length }) => {
+    const ETag = checkpoint.parts[PartNumber.toString()]
+    const part = onServer.get(PartNumber)
+    if (ETag === undefined || part === undefined || part.ETag !== ETag || part.Size !== length) {
+      return []
+    }
+    return [{ PartNumber, ETag }]
+  })
+}
+
+// Like putFileMultipart, but progress is recorded in a checkpoint file under `checkpointDir` after every part and the
+// upload is left in place if it fails or is interrupted. Running it again for the same bucket, key and unmodified file
+// picks up where it left off. If the file has been modified since, the upload of the old contents is aborted and a new
+// one started.
+export async function putFileResumable(
+  client: S3.S3,
+  input: S3.CreateMultipartUploadCommandInput & { Bucket: string; Key: string },
+  file: string,
+  fingerprint: FileFingerprint,
+  options: MultipartOptions,
+  checkpointDir: string,
+  onProgress: (bytes: number) => void,
+): Promise<Result<S3.CompleteMultipartUploadCommandOutput, Error>> {
+  const checkpointFile = checkpointPath(checkpointDir, input.Bucket, input.Key, fingerprint)
+  await abortStaleUploads(client, checkpointDir, checkpointFile, input, fingerprint.file)
+  let checkpoint = await readCheckpoint(checkpointFile)
+  let completed: S3.CompletedPart[] = []
+
+  if (checkpoint !== undefined) {
+    const upload = { Bucket: input.Bucket, Key: input.Key, UploadId: checkpoint.uploadId }
+    try {
+      const expected = fileParts(fingerprint.size, checkpoint.partSize)
+      completed = verifiedParts(checkpoint, expected, await listAllParts(client, upload))
+      console.info(
+        `Resuming upload ${checkpoint.uploadId}: ${completed.length} of ${expected.length} parts already uploaded`,
+      )
+      if (options.partSize !== checkpoint.partSize) {
+        console.warn(`Keeping the part size of ${checkpoint.partSize} bytes the upload was started with`)
+      }
+    } catch (e) {
+      if ((e as Error).name !== 'NoSuchUpload') {
+        return Err(new Error(`Unable to check the parts of upload ${checkpoint.uploadId}: ${describeError(e)}`))
+      }
+      console.warn(`Upload ${checkpoint.uploadId} no longer exists (it was completed or aborted), starting over`)
+      checkpoint = undefined
+    }
+  }
+
+  if (checkpoint === undefined) {
+    let created: S3.CreateMultipartUploadCommandOutput
+    try {
+      created = await client.send(new S3.CreateMultipartUploadCommand(input))
+    } catch (e) {
+      return Err(new Error(`Unable to start multipart upload: ${describeError(e)}`))
+    }
+
+    checkpoint = {
+      version: 1,
+      bucket: input.Bucket,
+      key: input.Key,
+      ...fingerprint,
+      uploadId: created.UploadId!,
+      partSize: partSizeFor(fingerprint.size, options.partSize),
+      parts: {},
+    }
+  }
+  checkpoint.parts = Object.fromEntries(completed.map(({ PartNumber, ETag }) => [PartNumber!.toString(), ETag!]))
+
+  // Parts finish concurrently so writes of the checkpoint are queued up to keep them from clobbering each other.
+  let saving = makeDirectory(checkpointDir).then(() => writeTextFileAtomic(checkpointFile, JSON.stringify(checkpoint)))
+  const save = () => {
+    saving = saving.then(() => writeTextFileAtomic(checkpointFile, JSON.stringify(checkpoint)))
+    return saving
+  }
+  try {
+    await saving
+  } catch (e) {
+    return Err(new Error(`Unable to save the upload checkpoint ${checkpointFile}: ${(e as Error).message}`))
+  }
+
+  const upload = { Bucket: input.Bucket, Key: input.Key, UploadId: checkpoint.uploadId }
+  const done = new Set(completed.map(({ PartNumber }) => PartNumber))
+  const parts = fileParts(fingerprint.size, checkpoint.partSize)
+  onProgress(parts.filter(({ PartNumber }) => done.has(PartNumber)).reduce((total, { length }) => total + length, 0))
+
+  const controller = new AbortController()
+  try {
+    await abortOnInterrupt(
+      controller,
+      () =>
+        uploadFileParts(
+          client,
+          upload,
+          file,
+          parts.filter(({ PartNumber }) => !done.has(PartNumber)),
+          options.concurrency,
+          controller.signal,
+          async (part, uploaded) => {
+            completed.push(uploaded)
+            checkpoint!.parts[part.PartNumber.toString()] = uploaded.ETag!
+            await save()
+            onProgress(part.length)
+          },
+        ),
+    )
+  } catch (e) {
+    await saving.catch(() => {})
+    const resume = `${completed.length} of ${parts.length} parts are uploaded. Run the same command again to resume.`
+    if (controller.signal.aborted) {
+      return Err(new Error(`Upload interrupted. ${resume}`))
+    }
+    return Err(new Error(`Upload failed: ${describeError(e)}. ${resume}`))
+  }
+
+  let response: S3.CompleteMultipartUploadCommandOutput
+  try {
+    response = await completeUpload(client, upload, completed)
+  } catch (e) {
+    return Err(new Error(`Unable to complete upload ${upload.UploadId}: ${describeError(e)}`))
+  }
+  await removeFile(checkpointFile)
+  return Ok(response)
+}
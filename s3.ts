@@ -7,16 +7,26 @@ import { sizeFormatter } from 'human-readable'
 import inquirer from 'inquirer'
 import { accessSync, constants, createReadStream, createWriteStream, statSync } from 'node:fs'
 import { IncomingMessage } from 'node:http'
+import path from 'node:path'
 import { Transform } from 'node:stream'
 import { pipeline } from 'node:stream/promises'
-import { inspect } from 'node:util'
+import { Ok, Result } from 'ts-results'
 import { ArgumentsCamelCase, Argv, demandOption } from 'yargs'
-import { retrieveConfig, retrieveOnlyConfig } from './config'
+import { retrieveConfig, retrieveOnlyConfig, uploadCheckpointDirectory } from './config'
+import { evaluatePreflight, loadCorsConfiguration } from './cors'
+import { abortUploads, deleteKeys, listAllUploads } from './deletion'
+import { downloadFileResumable } from './download'
+import { describeLifecycleRules, loadLifecycleConfiguration } from './lifecycle'
+import { listBucketPages, listObjectPages, listObjectV1Pages, mergePages } from './listing'
 import { ProgressBarCreator } from './main'
+import { abortOnInterrupt, copyObject, copySource, CopySourceConditions, defaultConcurrency, defaultCopyPartSize, defaultMultipartThreshold, defaultPartSize, describeError, loadPartsManifest, maxCopyObjectSize, MultipartOptions, putFileMultipart, putStreamMultipart, validateMultipartOptions } from './multipart'
+import { OutputFormat, outputFormats, renderResponse, validateQuery } from './output'
+import { putFileResumable } from './resumable'
+import { countOf, parseSize } from './util'
 
 export { Command as AWSCommand } from '@aws-sdk/smithy-client'
 
-function addAccountArg<T>(yargs: Argv<T>): Argv<T & { account?: string }> {
+export function addAccountArg<T>(yargs: Argv<T>): Argv<T & { account?: string }> {
   return yargs.option('--account', {
     alias: 'a',
     description:
@@ -33,6 +43,22 @@ function addObjectArg<T>(yargs: Argv<T>): Argv<T & { object: string }> {
   return yargs.positional('object', { type: 'string', describe: 'The name of the object.', demandOption: true })
 }
 
+function addUploadIdArg<T>(yargs: Argv<T>): Argv<T & { 'upload-id': string }> {
+  return yargs.positional('upload-id', {
+    type: 'string',
+    describe: 'The ID of the multipart upload (returned by create-multipart-upload).',
+    demandOption: true,
+  })
+}
+
+function addUploadPartArgs<T>(yargs: Argv<T>): Argv<T & { 'upload-id': string; 'part-number': number }> {
+  return addUploadIdArg(yargs).positional('part-number', {
+    type: 'number',
+    describe: 'The number of the part, from 1 to 10,000.',
+    demandOption: true,
+  })
+}
+
 function addHelp(yargs: Argv): Argv {
   return yargs.option('h', { alias: 'help', description: 'Print more information about this command' })
 }
@@ -47,21 +73,140 @@ function addSaveOption<T>(yargs: Argv<T>): Argv<T & { 'save-body-to'?: string }>
   })
 }
 
-function addVerboseOption<T>(yargs: Argv<T>): Argv<T & { 'verbose'?: boolean }> {
+export function addVerboseOption<T>(yargs: Argv<T>): Argv<T & { 'verbose'?: boolean }> {
   return yargs.option('verbose', { alias: 'v', nargs: 0, boolean: true, description: 'Log the outbound request' })
 }
 
+function addOutputOptions<T>(
+  yargs: Argv<T>,
+): Argv<T & { output?: OutputFormat; 'show-metadata'?: boolean; query?: string }> {
+  return yargs
+    .option('output', {
+      description:
+        'How to print responses. Listings get a row per entry in table, text and jsonl. Defaults to a colorized dump meant for reading.',
+      choices: outputFormats,
+      nargs: 1,
+      string: true,
+    })
+    .option('show-metadata', {
+      nargs: 0,
+      boolean: true,
+      description: 'Include the $metadata of the response (status code, request IDs, attempts).',
+    })
+    .option('query', {
+      nargs: 1,
+      string: true,
+      description:
+        'A JMESPath expression picking what to print from the response (e.g. Contents[].Key). Lists and values are printed one per line.',
+      coerce: validateQuery,
+    }) as Argv<T & { output?: OutputFormat; 'show-metadata'?: boolean; query?: string }>
+}
+
+export interface ObjectMetadataArgs {
+  'cache-control'?: string
+  'content-disposition'?: string
+  'content-encoding'?: string
+  'content-language'?: string
+  'content-type'?: string
+  'expires'?: string
+  'meta'?: string[]
+}
+
+function addPaginationOptions<T>(yargs: Argv<T>): Argv<T & { all?: boolean; limit?: number }> {
+  return yargs
+    .option('all', {
+      boolean: true,
+      nargs: 0,
+      description: 'Keep requesting pages until everything has been listed.',
+      conflicts: 'presign',
+    })
+    .option('limit', {
+      nargs: 1,
+      number: true,
+      description: 'Like --all but stop once this many entries have been listed.',
+      conflicts: 'presign',
+    })
+}
+
+export function addObjectMetadataOptions<T>(yargs: Argv<T>): Argv<T & ObjectMetadataArgs> {
+  return yargs
+    .option('meta', {
+      string: true,
+      nargs: 1,
+      array: true,
+      description:
+        'Supply k=v as an argument and this will send x-amz-meta-<k> with the value <v>. Can be specified repeatedly.',
+    })
+    .option('cache-control', {
+      nargs: 1,
+      string: true,
+      description:
+        'Set the `cache-control` metadata header for this object which is rendered when the file is retrieved (unless overridden).',
+    })
+    .option('content-disposition', {
+      nargs: 1,
+      string: true,
+      description:
+        'Set the `content-disposition` metadata header for this object which is rendered when the file is retrieved (unless overridden).',
+    })
+    .option('content-encoding', {
+      nargs: 1,
+      string: true,
+      description:
+        'Set the `content-encoding` metadata header for this object which is rendered when the file is retrieved (unless overridden).',
+    })
+    .option('content-language', {
+      nargs: 1,
+      string: true,
+      description:
+        'Set the `content-language` metadata header for this object which is rendered when the file is retrieved (unless overridden).',
+    })
+    .option('content-type', {
+      nargs: 1,
+      string: true,
+      description:
+        'Set the `content-type` metadata header for this object which is rendered when the file is retrieved (unless overridden).',
+    })
+    .option('expires', {
+      nargs: 1,
+      string: true,
+      description:
+        'Set the `expires` metadata header for this object which is rendered when the file is retrieved (unless overridden).',
+    })
+}
+
+export function objectMetadataFromArgs(argv: ObjectMetadataArgs) {
+  return {
+    CacheControl: argv['cache-control'],
+    ContentDisposition: argv['content-disposition'],
+    ContentEncoding: argv['content-encoding'],
+    ContentLanguage: argv['content-language'],
+    ContentType: argv['content-type'],
+    Expires: argv['expires'] ? new Date(argv['expires']) : undefined,
+    Metadata: Object.fromEntries((argv['meta'] ?? []).map((kv) => {
+      if (!kv.includes('=')) {
+        throw new Error(`Bad metadata '${kv}' - missing '=' between key and value`)
+      }
+      const [key, ...rest] = kv.split('=')
+      return [key, rest.join('=')]
+    })),
+  }
+}
+
+type CommandHandler = <Cmd extends AWSCommand<any, any, any>>(
+  args: ArgumentsCamelCase,
+  cmd: Cmd,
+  moreHeaders?: Record<string, string>,
+) => Promise<void> | void
+
 export function buildS3Commands(
-  commandHandler: <Cmd extends AWSCommand<any, any, any>>(
-    args: ArgumentsCamelCase,
-    cmd: Cmd,
-    moreHeaders?: Record<string, string>,
-  ) => Promise<void> | void,
+  commandHandler: CommandHandler,
   yargs: Argv,
+  progressBarCreator: ProgressBarCreator,
 ): Argv {
-  return addVerboseOption(addAccountArg(addPresignArg(yargs)))
+  return addOutputOptions(addVerboseOption(addAccountArg(addPresignArg(yargs))))
     .command('list-buckets', 'List the buckets currently created on your account.', (yargs) =>
-      addHelp(yargs)
+      addPaginationOptions(addHelp(yargs))
         .option('prefix', {
           alias: 'p',
           description: 'Only return buckets with the matching prefix.',
@@ -87,16 +232,7 @@ export function buildS3Commands(
           nargs: 1,
           number: true,
         }), (argv) =>
-      commandHandler(
-        argv,
-        new S3.ListBucketsCommand({}),
-        {
-          ...(argv['prefix'] !== undefined && { 'cf-prefix': argv['prefix'] }),
-          ...(argv['start-after'] !== undefined && { 'cf-start-after': argv['start-after'] }),
-          ...(argv['continuation-token'] !== undefined && { 'cf-continuation-token': argv['continuation-token'] }),
-          ...(argv['max-keys'] !== undefined && { 'cf-max-keys': argv['max-keys'].toString() }),
-        },
-      ))
+      listBucketsCommand(argv as typeof argv & GenericCmdArgs, commandHandler))
     .group('list-buckets', 'Account')
     .command('create-bucket <bucket>', 'Create a new R2 bucket.', (yargs) =>
       addBucketArg(addHelp(yargs))
@@ -123,9 +259,41 @@ export function buildS3Commands(
         new S3.HeadBucketCommand({ Bucket: argv['bucket'] }),
       ))
     .group('head-bucket', 'Bucket')
+    .command('delete-bucket <bucket>', 'Delete an R2 bucket, which has to be empty unless --force is given.', (yargs) =>
+      addBucketArg(addHelp(yargs))
+        .option('force', {
+          boolean: true,
+          nargs: 0,
+          description: 'Delete every object and abort every multipart upload in the bucket first.',
+          conflicts: 'presign',
+        })
+        .option('yes', {
+          alias: 'y',
+          boolean: true,
+          nargs: 0,
+          description: 'Delete without asking to type the bucket name to confirm first.',
+        })
+        .option('concurrency', {
+          nargs: 1,
+          number: true,
+          description: 'How many batches of deletes (or aborts) to have in flight at once with --force.',
+          default: defaultConcurrency,
+        }), (argv) => {
+      if (argv['presign']) {
+        return commandHandler(
+          argv,
+          new S3.DeleteBucketCommand({ Bucket: argv['bucket'] }),
+        )
+      }
+      return deleteBucketCommand(argv as typeof argv & GenericCmdArgs, progressBarCreator)
+    })
+    .group('delete-bucket', 'Bucket')
     .command('get-bucket-encryption <bucket>', 'Get the encryption currently set on the R2 bucket.', (yargs) =>
       addBucketArg(addHelp(yargs)), (argv) =>
-      commandHandler(argv, new S3.GetBucketEncryptionCommand({ Bucket: argv['bucket'] })))
+      commandHandler(
+        argv,
+        new S3.GetBucketEncryptionCommand({ Bucket: argv['bucket'] }),
+      ))
     .group('get-bucket-encryption', 'Bucket')
     .command('get-bucket-location <bucket>', 'Get the location of a R2 bucket.', (yargs) =>
       addBucketArg(addHelp(yargs)), (argv) =>
@@ -141,17 +309,41 @@ export function buildS3Commands(
       (argv) => commandHandler(argv, new S3.GetBucketCorsCommand({ Bucket: argv['bucket'] })),
     )
     .group('get-bucket-cors', 'Bucket')
+    .command('put-bucket-cors <bucket> [rules]', 'Set the CORS rules for this R2 bucket.', (yargs) =>
+      addBucketArg(addHelp(yargs)).positional('rules', {
+        type: 'string',
+        description:
+          'A JSON or TOML file with the CORS rules, in the same shape as `aws s3api put-bucket-cors`. Read from stdin if omitted or `-`.',
+      }), (argv) => putBucketCorsCommand(argv as typeof argv & GenericCmdArgs, commandHandler))
+    .group('put-bucket-cors', 'Bucket')
     .command(
-      'put-bucket-cors',
-      'Set the CORS rules for this R2 bucket.',
-      (yargs) => addBucketArg(addHelp(yargs)),
-      (argv) => {
-        throw new Error('put-bucket-cors not implemented')
-      }, /*commandHandler(argv, new S3.PutBucketCorsCommand({ Bucket: argv['bucket'], CORSConfiguration: {
-        CORSRules: []
-      } }))*/
+      'cors-check <bucket>',
+      `Check whether the bucket's CORS rules allow a preflight request, without making one from a browser.`,
+      (yargs) =>
+        addBucketArg(addHelp(yargs))
+          .option('origin', {
+            description: 'The Origin of the page making the request (e.g. https://example.com).',
+            nargs: 1,
+            string: true,
+            demandOption: true,
+          })
+          .option('method', {
+            description: 'The method the page wants to use (Access-Control-Request-Method).',
+            nargs: 1,
+            string: true,
+            default: 'GET',
+          })
+          .option('header', {
+            description:
+              'A header the page wants to send (Access-Control-Request-Headers). Can be specified repeatedly.',
+            nargs: 1,
+            string: true,
+            array: true,
+            default: [] as string[],
+          }),
+      (argv) => corsCheckCommand(argv as typeof argv & GenericCmdArgs),
     )
-    .group('put-bucket-cors <bucket>', 'Bucket')
+    .group('cors-check', 'Bucket')
     .command(
       'delete-bucket-cors <bucket>',
       'Delete the CORS rules for this R2 bucket.',
@@ -159,8 +351,53 @@ export function buildS3Commands(
       (argv) => commandHandler(argv, new S3.DeleteBucketCorsCommand({ Bucket: argv['bucket'] })),
     )
     .group('delete-bucket-cors', 'Bucket')
+    .command(
+      'get-bucket-lifecycle <bucket>',
+      'Get the object lifecycle rules for this R2 bucket.',
+      (yargs) => addBucketArg(addHelp(yargs)),
+      (argv) => commandHandler(argv, new S3.GetBucketLifecycleConfigurationCommand({ Bucket: argv['bucket'] })),
+    )
+    .group('get-bucket-lifecycle', 'Bucket')
+    .command(
+      'put-bucket-lifecycle <bucket> [rules]',
+      'Replace the object lifecycle rules for this R2 bucket.',
+      (yargs) =>
+        addBucketArg(addHelp(yargs)).positional('rules', {
+          type: 'string',
+          description:
+            'A JSON or TOML file with the lifecycle rules, in the same shape as `aws s3api put-bucket-lifecycle-configuration`. Read from stdin if omitted or `-`.',
+        }),
+      async (argv) => {
+        // yargs turns a lone `-` into an empty string.
+        const rules = await loadLifecycleConfiguration(argv['rules'] || '-')
+        if (rules.err) {
+          console.error(rules.val.message)
+          process.exitCode = 1
+          return
+        }
+
+        console.info(`Replacing the lifecycle rules on ${argv['bucket']} with:`)
+        for (const line of describeLifecycleRules(rules.val)) {
+          console.info(line)
+        }
+        console.info()
+
+        return commandHandler(
+          argv,
+          new S3.PutBucketLifecycleConfigurationCommand({ Bucket: argv['bucket'], LifecycleConfiguration: rules.val }),
+        )
+      },
+    )
+    .group('put-bucket-lifecycle', 'Bucket')
+    .command(
+      'delete-bucket-lifecycle <bucket>',
+      'Delete all the object lifecycle rules for this R2 bucket.',
+      (yargs) => addBucketArg(addHelp(yargs)),
+      (argv) => commandHandler(argv, new S3.DeleteBucketLifecycleCommand({ Bucket: argv['bucket'] })),
+    )
+    .group('delete-bucket-lifecycle', 'Bucket')
     .command('list-objects-v1 <bucket>', `List objects on this R2 bucket using S3's deprecated V1 API`, (yargs) =>
-      addBucketArg(addHelp(yargs))
+      addPaginationOptions(addBucketArg(addHelp(yargs)))
         .option('prefix', { nargs: 1, string: true, description: 'Only match keys that start with this value.' })
         .option('delimiter', {
           nargs: 1,
@@ -182,21 +419,26 @@ export function buildS3Commands(
           string: true,
           description:
             'Provide a string that all retrieved keys must be lexicographically larger than (see start-after in normal list-objects).',
-        }), (argv) =>
-      commandHandler(
-        argv,
-        new S3.ListObjectsCommand({
-          Bucket: argv['bucket'],
-          Prefix: argv['prefix'],
-          Delimiter: argv['delimiter'],
-          EncodingType: argv['url-encode'] ? 'url' : undefined,
-          MaxKeys: argv['max-keys'],
-          Marker: argv['marker'],
-        }),
-      ))
+        }), (argv) => {
+      const input = {
+        Bucket: argv['bucket'],
+        Prefix: argv['prefix'],
+        Delimiter: argv['delimiter'],
+        EncodingType: argv['url-encode'] ? 'url' : undefined,
+        MaxKeys: argv['max-keys'],
+        Marker: argv['marker'],
+      }
+      if (argv['all'] || argv['limit'] !== undefined) {
+        return listPagesCommand(
+          argv as typeof argv & GenericCmdArgs,
+          (client) => listObjectV1Pages(client, input, argv['limit']),
+        )
+      }
+      return commandHandler(argv, new S3.ListObjectsCommand(input))
+    })
     .group('list-objects-v1', 'Bucket')
     .command('list-objects <bucket>', 'List objects on this R2 bucket using the recommended S3 API.', (yargs) =>
-      addBucketArg(addHelp(yargs))
+      addPaginationOptions(addBucketArg(addHelp(yargs)))
         .option('prefix', { nargs: 1, string: true, description: 'Only match keys that start with this value.' })
         .option('delimiter', {
           nargs: 1,
@@ -223,18 +465,24 @@ export function buildS3Commands(
           nargs: 1,
           string: true,
           description: 'Continue where the last iteration left off on.',
-        }), (argv) =>
-      commandHandler(
-        argv,
-        new S3.ListObjectsV2Command({
-          Bucket: argv['bucket'],
-          Prefix: argv['prefix'],
-          Delimiter: argv['delimiter'],
-          EncodingType: argv['url-encode'] ? 'url' : undefined,
-          MaxKeys: argv['max-keys'],
-          ContinuationToken: argv['continuation-token'],
-        }),
-      ))
+        }), (argv) => {
+      const input = {
+        Bucket: argv['bucket'],
+        Prefix: argv['prefix'],
+        Delimiter: argv['delimiter'],
+        EncodingType: argv['url-encode'] ? 'url' : undefined,
+        MaxKeys: argv['max-keys'],
+        StartAfter: argv['start-after'],
+        ContinuationToken: argv['continuation-token'],
+      }
+      if (argv['all'] || argv['limit'] !== undefined) {
+        return listPagesCommand(
+          argv as typeof argv & GenericCmdArgs,
+          (client) => listObjectPages(client, input, argv['limit']),
+        )
+      }
+      return commandHandler(argv, new S3.ListObjectsV2Command(input))
+    })
     .group('list-objects', 'Bucket')
     .command('head-object <bucket> <object>', 'Check if the object exists in the R2 bucket.', (yargs) =>
       addObjectArg(addBucketArg(addHelp(yargs)))
@@ -338,46 +586,69 @@ export function buildS3Commands(
           nargs: 1,
           string: true,
           description: 'Override the response `expires` header that is returned in the response.',
-        }), (argv) =>
-      commandHandler(
-        argv,
-        new S3.GetObjectCommand({
-          Bucket: argv['bucket'],
-          Key: argv['object'],
-          Range: argv['range'],
-          IfMatch: argv['is-etag'],
-          IfNoneMatch: argv['not-etag'],
-          IfModifiedSince: argv['uploaded-after'] ? new Date(argv['uploaded-after']) : undefined,
-          IfUnmodifiedSince: argv['uploaded-before'] ? new Date(argv['uploaded-before']) : undefined,
-          ResponseCacheControl: argv['response-cache-control'],
-          ResponseContentDisposition: argv['response-content-disposition'],
-          ResponseContentEncoding: argv['response-content-encoding'],
-          ResponseContentLanguage: argv['response-content-language'],
-          ResponseContentType: argv['response-content-type'],
-          ResponseExpires: argv['response-expires'] ? new Date(argv['response-expires']) : undefined,
-        }),
-      ))
+        })
+        .option('part-size', {
+          nargs: 1,
+          description: 'The size of each byte range when downloading to a file (at least 5MiB).',
+          default: defaultPartSize,
+          coerce: parseSize,
+        })
+        .option('concurrency', {
+          nargs: 1,
+          number: true,
+          description: 'How many byte ranges to download at once when downloading to a file.',
+          default: defaultConcurrency,
+        }), (argv) => {
+      const conditions = {
+        IfMatch: argv['is-etag'],
+        IfNoneMatch: argv['not-etag'],
+        IfModifiedSince: argv['uploaded-after'] ? new Date(argv['uploaded-after']) : undefined,
+        IfUnmodifiedSince: argv['uploaded-before'] ? new Date(argv['uploaded-before']) : undefined,
+      }
+      const responseOverrides = {
+        ResponseCacheControl: argv['response-cache-control'],
+        ResponseContentDisposition: argv['response-content-disposition'],
+        ResponseContentEncoding: argv['response-content-encoding'],
+        ResponseContentLanguage: argv['response-content-language'],
+        ResponseContentType: argv['response-content-type'],
+        ResponseExpires: argv['response-expires'] ? new Date(argv['response-expires']) : undefined,
+      }
+      // Downloads to a file go in byte ranges and can be resumed. Anything asking for a particular response is a single
+      // request, as is writing to stdout since that can't be written out of order.
+      const overridden = Object.values(responseOverrides).some((value) => value !== undefined)
+      if (argv['presign'] || argv['range'] !== undefined || argv['save-body-to'] === '-' || overridden) {
+        return commandHandler(
+          argv,
+          new S3.GetObjectCommand({
+            Bucket: argv['bucket'],
+            Key: argv['object'],
+            Range: argv['range'],
+            ...conditions,
+            ...responseOverrides,
+          }),
+        )
+      }
+      return getObjectCommand(
+        argv as typeof argv & GenericCmdArgs,
+        { Bucket: argv['bucket'], Key: argv['object'], ...conditions },
+        { partSize: argv['part-size'], concurrency: argv['concurrency'] },
+        progressBarCreator,
+      )
+    })
     .group('get-object', 'Object')
     .command('put-object <bucket> <object> [file|string]', 'Upload an object to the R2 bucket.', (yargs) =>
-      addSaveOption(addObjectArg(addBucketArg(addHelp(yargs))))
+      addObjectMetadataOptions(addSaveOption(addObjectArg(addBucketArg(addHelp(yargs)))))
         .positional('file', {
           type: 'string',
           description:
-            'Unless --simple is provided, this is the filename. If not specified, then the object name is interpreted as the name of the file',
+            'Unless --simple is provided, this is the filename (`-` for stdin). If not specified, then the object name is interpreted as the name of the file',
         })
         .option('simple', {
           boolean: true,
           nargs: 0,
           description: 'Treat the input argument as a string instead of a file name.',
         })
-        .option('meta', {
-          string: true,
-          nargs: 1,
-          array: true,
-          description:
-            'Supply k=v as an argument and this will send x-amz-meta-<k> with the value <v>. Can be specified repeatedly.',
-          demandOption: true,
-        })
+        .demandOption('meta')
         .option('is-etag', {
           nargs: 1,
           string: true,
@@ -400,93 +671,90 @@ export function buildS3Commands(
           description:
             'Only returns a successful response if the specified object was uploaded after this date (If-Modified-Since header).',
         })
-        .option('cache-control', {
-          nargs: 1,
-          string: true,
-          description:
-            'Set the `cache-control` metadata header for this object which is rendered when the file is retrieved (unless overridden).',
-        })
-        .option('content-disposition', {
-          nargs: 1,
-          string: true,
-          description:
-            'Set the `content-disposition` metadata header for this object which is rendered when the file is retrieved (unless overridden).',
-        })
-        .option('content-encoding', {
+        .option('multipart-threshold', {
           nargs: 1,
-          string: true,
           description:
-            'Set the `content-encoding` metadata header for this object which is rendered when the file is retrieved (unless overridden).',
+            'Files larger than this (e.g. 64MiB) are uploaded in parts in parallel instead of with a single request.',
+          default: defaultMultipartThreshold,
+          coerce: parseSize,
         })
-        .option('content-language', {
+        .option('part-size', {
           nargs: 1,
-          string: true,
-          description:
-            'Set the `content-language` metadata header for this object which is rendered when the file is retrieved (unless overridden).',
+          description: 'The size of each part when uploading in parts (at least 5MiB).',
+          default: defaultPartSize,
+          coerce: parseSize,
         })
-        .option('content-type', {
+        .option('concurrency', {
           nargs: 1,
-          string: true,
-          description:
-            'Set the `content-type` metadata header for this object which is rendered when the file is retrieved (unless overridden).',
+          number: true,
+          description: 'How many parts to upload at once when uploading in parts.',
+          default: defaultConcurrency,
         })
-        .option('expires', {
-          nargs: 1,
-          string: true,
+        .option('resumable', {
+          boolean: true,
+          nargs: 0,
           description:
-            'Set the `expires` metadata header for this object which is rendered when the file is retrieved (unless overridden).',
+            'Always upload in parts and record progress locally so that running the same command again after a failure only uploads the missing parts.',
+          conflicts: ['simple', 'presign', 'is-etag', 'not-etag', 'uploaded-before', 'uploaded-after'],
         }), (argv) =>
-      commandHandler(
-        argv,
-        new S3.PutObjectCommand({
-          Bucket: argv['bucket'],
-          Key: argv['object'],
-          Body: (() => {
-            if (argv['simple']) {
-              if (argv.file === undefined) {
-                throw new Error('--simple provided but no value provided')
-              }
-              return argv
-                .file
-            }
-
-            // Can't interpret `-` because the file size is required.
-            return createReadStream(argv.file ?? argv.object, 'binary')
-          })(),
-          ContentLength: (() => {
-            if (argv['simple']) { return undefined }
-            return statSync(
-              argv.file ?? argv
-                .object,
-            )
-              .size
-          })(),
-          CacheControl: argv['cache-control'],
-          ContentDisposition: argv['content-disposition'],
-          ContentEncoding: argv['content-encoding'],
-          ContentLanguage: argv['content-language'],
-          ContentType: argv['content-type'],
-          Expires: argv['expires'] ? new Date(argv['expires']) : undefined,
-          Metadata: Object.fromEntries(argv['meta'].map((kv) => {
-            if (!kv.includes('=')) {
-              throw new Error(`Bad metadata '${kv}' - missing '=' between key and value`)
-            }
-            const [key, ...rest] = kv
-              .split('=')
-            return [
-              key,
-              rest.join('='),
-            ]
-          })),
-        }),
-        {
-          ...(argv['is-etag'] && { 'IfMatch': argv['is-etag'] }),
-          ...(argv['not-etag'] && { 'IfNoneMatch': argv['not-etag'] }),
-          ...(argv['uploaded-after'] && { 'IfModifiedSince': argv['uploaded-before'] }),
-          ...(argv['uploaded-before'] && { 'IfUnmodifiedSince': argv['uploaded-before'] }),
-        },
-      ))
+      putObjectCommand(argv as typeof argv & GenericCmdArgs, commandHandler, progressBarCreator))
     .group('put-object', 'Object')
+    .command(
+      'copy-object <src-bucket> <src-key> <dst-bucket> <dst-key>',
+      'Copy an object within R2 without downloading it.',
+      (yargs) =>
+        addObjectMetadataOptions(addHelp(yargs))
+          .positional('src-bucket', { type: 'string', description: 'The bucket to copy from.', demandOption: true })
+          .positional('src-key', { type: 'string', description: 'The object to copy.', demandOption: true })
+          .positional('dst-bucket', { type: 'string', description: 'The bucket to copy to.', demandOption: true })
+          .positional('dst-key', { type: 'string', description: 'The name of the copy.', demandOption: true })
+          .option('metadata-directive', {
+            nargs: 1,
+            string: true,
+            choices: ['COPY', 'REPLACE'],
+            default: 'COPY',
+            description:
+              'Whether the copy keeps the metadata of the source or gets the metadata given by --meta, --content-type etc. instead.',
+          })
+          .option('copy-source-if-match', {
+            nargs: 1,
+            string: true,
+            description: 'Only copy if the source has this ETag (x-amz-copy-source-if-match header).',
+          })
+          .option('copy-source-if-none-match', {
+            nargs: 1,
+            string: true,
+            description: "Only copy if the source doesn't have this ETag (x-amz-copy-source-if-none-match header).",
+          })
+          .option('copy-source-if-modified-since', {
+            nargs: 1,
+            string: true,
+            description:
+              'Only copy if the source was uploaded after this date (x-amz-copy-source-if-modified-since header).',
+          })
+          .option('copy-source-if-unmodified-since', {
+            nargs: 1,
+            string: true,
+            description:
+              'Only copy if the source was uploaded before this date (x-amz-copy-source-if-unmodified-since header).',
+          })
+          .option('part-size', {
+            nargs: 1,
+            description: `The size of each part when copying objects larger than ${
+              maxCopyObjectSize / 1024 ** 3
+            }GiB, which can't be copied with a single request.`,
+            default: defaultCopyPartSize,
+            coerce: parseSize,
+          })
+          .option('concurrency', {
+            nargs: 1,
+            number: true,
+            description: 'How many parts to copy at once when copying in parts.',
+            default: defaultConcurrency,
+          }),
+      (argv) => copyObjectCommand(argv as typeof argv & GenericCmdArgs, commandHandler, progressBarCreator),
+    )
+    .group('copy-object', 'Object')
     .command('delete-object <bucket> <object> [file|string]', 'Delete a single R2 object.', (yargs) =>
       addObjectArg(addBucketArg(addHelp(yargs))), (argv) =>
       commandHandler(
@@ -516,6 +784,235 @@ export function buildS3Commands(
         }),
       ))
     .group('delete-object', 'Object')
+    .command(
+      'delete-prefix <bucket> <prefix>',
+      'Delete every object whose key starts with a prefix, 1,000 at a time.',
+      (yargs) =>
+        addBucketArg(addHelp(yargs))
+          .positional('prefix', {
+            type: 'string',
+            description: 'Delete the objects whose keys start with this. End it with / to stay within a "directory".',
+            demandOption: true,
+          })
+          .option('yes', {
+            alias: 'y',
+            boolean: true,
+            nargs: 0,
+            description: 'Delete without asking for confirmation first.',
+          })
+          .option('dry-run', {
+            boolean: true,
+            nargs: 0,
+            description: 'List what would be deleted without deleting anything.',
+          })
+          .option('concurrency', {
+            nargs: 1,
+            number: true,
+            description: 'How many batches of deletes to have in flight at once.',
+            default: defaultConcurrency,
+          }),
+      (argv) => deletePrefixCommand(argv as typeof argv & GenericCmdArgs, progressBarCreator),
+    )
+    .group('delete-prefix', 'Object')
+    .command(
+      'create-multipart-upload <bucket> <object>',
+      'Start a multipart upload. The metadata for the object is set here rather than when it is completed.',
+      (yargs) => addObjectMetadataOptions(addObjectArg(addBucketArg(addHelp(yargs)))),
+      (argv) =>
+        commandHandler(
+          argv,
+          new S3.CreateMultipartUploadCommand({
+            Bucket: argv['bucket'],
+            Key: argv['object'],
+            ...objectMetadataFromArgs(argv),
+          }),
+        ),
+    )
+    .group('create-multipart-upload', 'Multipart')
+    .command(
+      'upload-part <bucket> <object> <upload-id> <part-number> [file]',
+      'Upload one part of a multipart upload from a file.',
+      (yargs) =>
+        addUploadPartArgs(addObjectArg(addBucketArg(addHelp(yargs))))
+          .positional('file', {
+            type: 'string',
+            description: 'The file to read the part from. Not needed with --presign.',
+          })
+          .option('offset', { nargs: 1, number: true, description: 'Where in the file the part starts.', default: 0 })
+          .option('length', {
+            nargs: 1,
+            number: true,
+            description: 'How many bytes of the file to upload. Defaults to the rest of the file.',
+          }),
+      (argv) => {
+        const upload = {
+          Bucket: argv['bucket'],
+          Key: argv['object'],
+          UploadId: argv['upload-id'],
+          PartNumber: argv['part-number'],
+        }
+        if (argv['presign']) {
+          return commandHandler(argv, new S3.UploadPartCommand(upload))
+        }
+
+        if (argv['file'] === undefined) {
+          console.error('A file to upload the part from is required')
+          process.exitCode = 1
+          return
+        }
+        const length = argv['length'] ?? statSync(argv['file']).size - argv['offset']
+        return commandHandler(
+          argv,
+          new S3.UploadPartCommand({
+            ...upload,
+            Body: createReadStream(argv['file'], { start: argv['offset'], end: argv['offset'] + length - 1 }),
+            ContentLength: length,
+          }),
+        )
+      },
+    )
+    .group('upload-part', 'Multipart')
+    .command(
+      'upload-part-copy <bucket> <object> <upload-id> <part-number> <source>',
+      'Upload one part of a multipart upload by copying from an existing object.',
+      (yargs) =>
+        addUploadPartArgs(addObjectArg(addBucketArg(addHelp(yargs))))
+          .positional('source', {
+            type: 'string',
+            description: 'The object to copy from as <bucket>/<object>.',
+            demandOption: true,
+          })
+          .option('range', {
+            nargs: 1,
+            string: true,
+            description: 'The range of the source object to copy (e.g. bytes=0-5242879). Defaults to all of it.',
+          }),
+      (argv) =>
+        commandHandler(
+          argv,
+          new S3.UploadPartCopyCommand({
+            Bucket: argv['bucket'],
+            Key: argv['object'],
+            UploadId: argv['upload-id'],
+            PartNumber: argv['part-number'],
+            CopySource: argv['source'],
+            CopySourceRange: argv['range'],
+          }),
+        ),
+    )
+    .group('upload-part-copy', 'Multipart')
+    .command(
+      'complete-multipart-upload <bucket> <object> <upload-id> [parts]',
+      'Finish a multipart upload, assembling the object from its parts.',
+      (yargs) =>
+        addUploadIdArg(addObjectArg(addBucketArg(addHelp(yargs)))).positional('parts', {
+          type: 'string',
+          description:
+            'A JSON or TOML manifest of the parts as { "Parts": [{ "PartNumber": 1, "ETag": "..." }] }. Read from stdin if omitted or `-`.',
+        }),
+      async (argv) => {
+        const upload = { Bucket: argv['bucket'], Key: argv['object'], UploadId: argv['upload-id'] }
+        if (argv['presign']) {
+          return commandHandler(argv, new S3.CompleteMultipartUploadCommand(upload))
+        }
+
+        // yargs turns a lone `-` into an empty string.
+        const parts = await loadPartsManifest(argv['parts'] || '-')
+        if (parts.err) {
+          console.error(parts.val.message)
+          process.exitCode = 1
+          return
+        }
+        return commandHandler(
+          argv,
+          new S3.CompleteMultipartUploadCommand({ ...upload, MultipartUpload: { Parts: parts.val } }),
+        )
+      },
+    )
+    .group('complete-multipart-upload', 'Multipart')
+    .command(
+      'abort-multipart-upload <bucket> <object> <upload-id>',
+      'Abort a multipart upload, deleting the parts uploaded so far.',
+      (yargs) => addUploadIdArg(addObjectArg(addBucketArg(addHelp(yargs)))),
+      (argv) =>
+        commandHandler(
+          argv,
+          new S3.AbortMultipartUploadCommand({
+            Bucket: argv['bucket'],
+            Key: argv['object'],
+            UploadId: argv['upload-id'],
+          }),
+        ),
+    )
+    .group('abort-multipart-upload', 'Multipart')
+    .command(
+      'list-multipart-uploads <bucket>',
+      'List the multipart uploads that have been started but not completed or aborted.',
+      (yargs) =>
+        addBucketArg(addHelp(yargs))
+          .option('prefix', { nargs: 1, string: true, description: 'Only match keys that start with this value.' })
+          .option('delimiter', {
+            nargs: 1,
+            string: true,
+            description: 'Group keys by this value (use / to get a traditional hierarchical view of your objects).',
+          })
+          .option('max-uploads', {
+            nargs: 1,
+            number: true,
+            description: 'Provide an option in case you want fewer than 1,000 uploads returned.',
+          })
+          .option('key-marker', {
+            nargs: 1,
+            string: true,
+            description: 'Continue listing from this key (NextKeyMarker in a previous response).',
+          })
+          .option('upload-id-marker', {
+            nargs: 1,
+            string: true,
+            description: 'Continue listing from this upload (NextUploadIdMarker in a previous response).',
+          }),
+      (argv) =>
+        commandHandler(
+          argv,
+          new S3.ListMultipartUploadsCommand({
+            Bucket: argv['bucket'],
+            Prefix: argv['prefix'],
+            Delimiter: argv['delimiter'],
+            MaxUploads: argv['max-uploads'],
+            KeyMarker: argv['key-marker'],
+            UploadIdMarker: argv['upload-id-marker'],
+          }),
+        ),
+    )
+    .group('list-multipart-uploads', 'Multipart')
+    .command(
+      'list-parts <bucket> <object> <upload-id>',
+      'List the parts uploaded so far for a multipart upload.',
+      (yargs) =>
+        addUploadIdArg(addObjectArg(addBucketArg(addHelp(yargs))))
+          .option('max-parts', {
+            nargs: 1,
+            number: true,
+            description: 'Provide an option in case you want fewer than 1,000 parts returned.',
+          })
+          .option('part-number-marker', {
+            nargs: 1,
+            string: true,
+            description: 'Only list parts after this part number (NextPartNumberMarker in a previous response).',
+          }),
+      (argv) =>
+        commandHandler(
+          argv,
+          new S3.ListPartsCommand({
+            Bucket: argv['bucket'],
+            Key: argv['object'],
+            UploadId: argv['upload-id'],
+            MaxParts: argv['max-parts'],
+            PartNumberMarker: argv['part-number-marker'],
+          }),
+        ),
+    )
+    .group('list-parts', 'Multipart')
     .strict()
     .help('h')
     .alias('h', 'help')
@@ -539,6 +1036,24 @@ function addHeaders<Input extends S3.ServiceInputTypes, Output extends S3.Servic
   return request
 }
 
+function printResponse(argv: ArgumentsCamelCase<GenericCmdArgs>, response: object): void {
+  let rendered: string
+  try {
+    rendered = renderResponse(response, {
+      format: argv.output,
+      showMetadata: argv['show-metadata'] ?? false,
+      query: argv.query,
+    })
+  } catch (e) {
+    console.error(`Unable to apply --query to the response: ${(e as Error).message}`)
+    process.exitCode = 1
+    return
+  }
+  if (rendered !== '') {
+    console.info(rendered)
+  }
+}
+
 export type GenericCmdArgs = {
   verbose?: boolean
   account?: string
@@ -548,6 +1063,9 @@ export type GenericCmdArgs = {
   'save-body-to'?: string
   'expires-in'?: number
   'sign-header'?: string | string[]
+  output?: OutputFormat
+  'show-metadata'?: boolean
+  query?: string
 }
 
 function addPresignArg<T>(yargs: Argv<T>): Argv<T> {
@@ -575,25 +1093,19 @@ function addPresignArg<T>(yargs: Argv<T>): Argv<T> {
     .strict()
 }
 
-export async function handleS3Cmd<Command extends AWSCommand<any, any, any>>(
-  argv: ArgumentsCamelCase<GenericCmdArgs>,
-  command: Command,
-  progressBarCreator: ProgressBarCreator,
-  headers?: Record<string, string>,
-): Promise<void> {
-  if (headers === undefined) {
-    headers = {}
-  }
-
-  const config = argv['account'] ? await retrieveConfig(argv['account']) : await retrieveOnlyConfig()
+export async function createClient(
+  argv: Pick<GenericCmdArgs, 'account' | 'bucket' | 'verbose'>,
+): Promise<Result<S3.S3, Error>> {
+  const config = argv['account'] ?
+    await retrieveConfig(argv['account'], argv['bucket']) :
+    await retrieveOnlyConfig(argv['bucket'])
   if (config.err) {
-    process.exitCode = 1
-    return
+    return config
   }
 
   const client = new S3.S3({
     region: 'auto',
-    endpoint: `https://${config.val.account_id}.r2.cloudflarestorage.com`,
+    endpoint: config.val.endpoint,
     credentials: { accessKeyId: config.val.access_key_id, secretAccessKey: config.val.secret_access_key },
     forcePathStyle: true,
   })
@@ -628,37 +1140,103 @@ export async function handleS3Cmd<Command extends AWSCommand<any, any, any>>(
     }, { name: 'logRequest', step: 'finalizeRequest', priority: 'low' })
   }
 
-  if (argv.presign) {
-    const now = new Date()
-    const expiryInXSeconds = argv['expires-in']!
-    const expiryDate = new Date(now.getTime() + expiryInXSeconds * 1000)
+  return Ok(client)
+}
 
-    if (argv['sign-header']) {
-      if (typeof argv['sign-header'] === 'string') {
-        argv['sign-header'] = [argv['sign-header']]
-      }
-      for (const [k, v] of argv['sign-header'].map((kv) => kv.split('='))) {
-        headers[k] = v
-      }
+// The HTTP method the presigned request has to be sent with.
+function presignMethod(command: AWSCommand<any, any, any>): 'GET' | 'HEAD' | 'PUT' | 'DELETE' | 'POST' {
+  const name = command.constructor.name
+  if (['DeleteObjectsCommand', 'CreateMultipartUploadCommand', 'CompleteMultipartUploadCommand'].includes(name)) {
+    return 'POST'
+  } else if (name.startsWith('Put') || name.startsWith('UploadPart') || name === 'CreateBucketCommand') {
+    return 'PUT'
+  } else if (name.startsWith('Delete') || name.startsWith('Abort')) {
+    return 'DELETE'
+  } else if (name.startsWith('Head')) {
+    return 'HEAD'
+  }
+  return 'GET'
+}
+
+// Where to save a response body, inferred from the object if --save-body-to wasn't given. Checks before overwriting
+// anything and returns undefined if the body shouldn't be saved.
+async function savePathFor(argv: ArgumentsCamelCase<GenericCmdArgs>): Promise<string | undefined> {
+  let savePath = argv['save-body-to']
+  if (savePath === undefined) {
+    if (argv['object'] !== undefined) {
+      // Infer the save location
+      savePath = argv['object'].split('/').at(-1)!
+    } else {
+      console.warn('The response from the request is not saved - please specify --save/-o')
+      return undefined
     }
-    addHeaders(command, headers)
+  }
 
-    let method: 'GET' | 'HEAD' | 'PUT' | 'DELETE' | 'POST'
-    if (command.constructor.name.startsWith('Put')) {
-      method = 'GET'
-    } else if (command.constructor.name.startsWith('Delete')) {
-      if (command.constructor.name.startsWith('DeleteObjects')) {
-        method = 'POST'
+  if (savePath !== '-') {
+    try {
+      accessSync(savePath, constants.W_OK)
+
+      const prompt = inquirer.createPromptModule()
+      const answer = await prompt({
+        name: 'overwrite',
+        message: `${savePath} already exists and --save-body-to/-o was not provided. Overwrite?`,
+        type: 'confirm',
+        default: false,
+      })
+      if (!answer.overwrite) {
+        return undefined
+      }
+    } catch (e) {
+      if (Object.prototype.hasOwnProperty.call(e, 'code') && (e as NodeJS.ErrnoException).code === 'ENOENT') {
+        // Creating a new file is fine.
       } else {
-        method = 'DELETE'
+        console.error(`Unrecognized error trying to save to inferred location from object name.`, e)
+        process.exitCode = 1
+        return undefined
       }
-    } else if (command.constructor.name.startsWith('Head')) {
-      method = 'HEAD'
-    } else {
-      method = 'GET'
     }
+  }
+  return savePath
+}
 
-    const presignedUrl = await getSignedUrl(client, command, {
+export async function handleS3Cmd<Command extends AWSCommand<any, any, any>>(
+  argv: ArgumentsCamelCase<GenericCmdArgs>,
+  command: Command,
+  progressBarCreator: ProgressBarCreator,
+  headers?: Record<string, string>,
+): Promise<void> {
+  if (headers === undefined) {
+    headers = {}
+  }
+
+  const created = await createClient(argv)
+  if (created.err) {
+    if (created.val.message) {
+      console.error(created.val.message)
+    }
+    process.exitCode = 1
+    return
+  }
+  const client = created.val
+
+  if (argv.presign) {
+    const now = new Date()
+    const expiryInXSeconds = argv['expires-in']!
+    const expiryDate = new Date(now.getTime() + expiryInXSeconds * 1000)
+
+    if (argv['sign-header']) {
+      if (typeof argv['sign-header'] === 'string') {
+        argv['sign-header'] = [argv['sign-header']]
+      }
+      for (const [k, v] of argv['sign-header'].map((kv) => kv.split('='))) {
+        headers[k] = v
+      }
+    }
+    addHeaders(command, headers)
+
+    const method = presignMethod(command)
+
+    const presignedUrl = await getSignedUrl(client, command, {
       expiresIn: expiryInXSeconds,
       'signableHeaders': headers ? new Set(Object.keys(headers)) : undefined,
       signingDate: now,
@@ -691,7 +1269,7 @@ export async function handleS3Cmd<Command extends AWSCommand<any, any, any>>(
     body = response.Body
     bodyLength = response.ContentLength
     delete response['Body']
-    console.info(inspect(response, { depth: null, colors: true }))
+    printResponse(argv, response)
   } catch (e) {
     const err = (e as Error & AWSTypes.MetadataBearer)
     console.error(`Failed ${argv._.join(' ')}: ${err['$metadata']['httpStatusCode']} ${err.message}`)
@@ -700,50 +1278,17 @@ export async function handleS3Cmd<Command extends AWSCommand<any, any, any>>(
   }
 
   if (body !== undefined) {
-    if (argv['save-body-to'] === undefined) {
-      if (argv['object'] !== undefined) {
-        // Infer the save location
-        let inferredSavePath = argv['object'].split('/').at(-1)!
-        argv['save-body-to'] = inferredSavePath
-      } else {
-        console.warn('The response from the request is not saved - please specify --save/-o')
-        return
-      }
-    }
-
-    if (argv['save-body-to'] !== '-') {
-      try {
-        accessSync(argv['save-body-to'], constants.W_OK)
-
-        const prompt = inquirer.createPromptModule()
-        const answer = await prompt({
-          name: 'overwrite',
-          message: `${argv['save-body-to']} already exists and --save-body-to/-o was not provided. Overwrite?`,
-          type: 'confirm',
-          default: false,
-        })
-        if (!answer.overwrite) {
-          return
-        }
-      } catch (e) {
-        if (Object.prototype.hasOwnProperty.call(e, 'code') && (e as NodeJS.ErrnoException).code === 'ENOENT') {
-          // Creating a new file is fine.
-        } else {
-          console.error(`Unrecognized error trying to save to inferred location from object name.`, e)
-          process.exitCode = 1
-          return
-        }
-      }
+    const savePath = await savePathFor(argv)
+    if (savePath === undefined) {
+      return
     }
 
     // TODO(later): If dumping to stdout and stdout is connected to a TTY, prompt confirmation when file is > some threshold.
 
-    let output = argv['save-body-to'] !== '-' ?
-      createWriteStream(argv['save-body-to'], { encoding: 'binary' }) :
-      process.stdout
+    let output = savePath !== '-' ? createWriteStream(savePath, { encoding: 'binary' }) : process.stdout
 
-    if (bodyLength !== undefined && argv['save-body-to'] !== '-') {
-      const progressBar = progressBarCreator({ description: argv['save-body-to'] })
+    if (bodyLength !== undefined && savePath !== '-') {
+      const progressBar = progressBarCreator({ description: savePath })
       progressBar.start(bodyLength, 0, { speed: 'N/A' })
 
       const speedFormat = sizeFormatter({ std: 'IEC', decimalPlaces: 2, keepTrailingZeroes: false })
@@ -782,3 +1327,708 @@ export async function handleS3Cmd<Command extends AWSCommand<any, any, any>>(
     }
   }
 }
+
+async function putBucketCorsCommand(
+  argv: ArgumentsCamelCase<GenericCmdArgs & { bucket: string; rules?: string }>,
+  commandHandler: CommandHandler,
+): Promise<void> {
+  // yargs turns a lone `-` into an empty string.
+  const rules = await loadCorsConfiguration(argv.rules || '-')
+  if (rules.err) {
+    console.error(rules.val.message)
+    process.exitCode = 1
+    return
+  }
+  return commandHandler(argv, new S3.PutBucketCorsCommand({ Bucket: argv.bucket, CORSConfiguration: rules.val }))
+}
+
+async function corsCheckCommand(
+  argv: ArgumentsCamelCase<GenericCmdArgs & { bucket: string; origin: string; method: string; header: string[] }>,
+): Promise<void> {
+  if (argv.presign) {
+    console.error(`cors-check evaluates the rules locally so there's no request to presign`)
+    process.exitCode = 1
+    return
+  }
+
+  const created = await createClient(argv)
+  if (created.err) {
+    if (created.val.message) {
+      console.error(created.val.message)
+    }
+    process.exitCode = 1
+    return
+  }
+
+  let rules: S3.GetBucketCorsCommandOutput
+  try {
+    rules = await created.val.send(new S3.GetBucketCorsCommand({ Bucket: argv.bucket }))
+  } catch (e) {
+    const err = (e as Error & AWSTypes.MetadataBearer)
+    if (err.name === 'NoSuchCORSConfiguration') {
+      console.info(`${colors.red('✗')} ${argv.bucket} has no CORS rules so every cross-origin request is rejected`)
+    } else {
+      console.error(
+        `Failed to get the CORS rules for ${argv.bucket}: ${err['$metadata']?.httpStatusCode} ${err.message}`,
+      )
+    }
+    process.exitCode = 1
+    return
+  }
+
+  // Access-Control-Request-Headers is a comma separated list so accept it pasted as-is from the browser's dev tools.
+  const headers = argv.header.flatMap((header) => header.split(',')).map((header) => header.trim()).filter((header) =>
+    header !== ''
+  )
+  const result = evaluatePreflight(rules, { origin: argv.origin, method: argv.method, headers })
+
+  result.rules.forEach(({ rule, mismatches }, idx) => {
+    const name = rule.ID !== undefined ? `Rule ${idx} (${rule.ID})` : `Rule ${idx}`
+    if (rule === result.matched) {
+      console.info(`${colors.green('✓')} ${name} allows the request`)
+    } else if (mismatches.length === 0) {
+      console.info(`  ${name} would also allow the request but an earlier rule takes precedence`)
+    } else {
+      console.info(`${colors.red('✗')} ${name}: ${mismatches.join(', ')}`)
+    }
+  })
+
+  if (result.matched === undefined) {
+    console.info()
+    console.info(`The preflight is rejected (403) so the browser won't send the request.`)
+    process.exitCode = 1
+    return
+  }
+
+  console.info()
+  console.info('R2 would respond to the preflight with:')
+  for (const [k, v] of Object.entries(result.responseHeaders)) {
+    console.info(`  ${k}: ${v}`)
+  }
+}
+
+// Returns a callback that advances the progress bar by the bytes just sent and updates the average speed.
+export function progressWithSpeed(progressBar: ReturnType<ProgressBarCreator>): (bytes: number) => void {
+  const speedFormat = sizeFormatter({ std: 'IEC', decimalPlaces: 2, keepTrailingZeroes: false })
+  const measurementStart = Date.now()
+  let sent = 0
+  return (bytes: number) => {
+    sent += bytes
+    const elapsedSeconds = (Date.now() - measurementStart) / 1000
+    progressBar.increment(bytes, { speed: `${speedFormat(sent / elapsedSeconds)}/s` })
+  }
+}
+
+async function getObjectCommand(
+  argv: ArgumentsCamelCase<GenericCmdArgs>,
+  input: S3.HeadObjectCommandInput & { Bucket: string; Key: string },
+  options: MultipartOptions,
+  progressBarCreator: ProgressBarCreator,
+): Promise<void> {
+  const valid = validateMultipartOptions(options)
+  if (valid.err) {
+    console.error(valid.val.message)
+    process.exitCode = 1
+    return
+  }
+
+  const created = await createClient(argv)
+  if (created.err) {
+    if (created.val.message) {
+      console.error(created.val.message)
+    }
+    process.exitCode = 1
+    return
+  }
+
+  // The conditions are checked once up front. After that every range is tied to the ETag this returns.
+  let head: S3.HeadObjectCommandOutput
+  try {
+    head = await created.val.send(new S3.HeadObjectCommand(input))
+  } catch (e) {
+    console.error(`Failed ${argv._.join(' ')}: ${describeError(e)}`)
+    process.exitCode = 1
+    return
+  }
+  printResponse(argv, head)
+
+  const file = await savePathFor(argv)
+  if (file === undefined) {
+    return
+  }
+
+  const size = head.ContentLength ?? 0
+  const progressBar = progressBarCreator({ description: file })
+  progressBar.start(size, 0, { speed: 'N/A' })
+  const response = await downloadFileResumable(
+    created.val,
+    {
+      Bucket: input.Bucket,
+      Key: input.Key,
+      ETag: head.ETag!,
+      size,
+    },
+    file,
+    options,
+    progressWithSpeed(progressBar),
+  )
+  progressBar.stop()
+
+  if (response.err) {
+    console.error(`Failed ${argv._.join(' ')}: ${response.val.message}`)
+    process.exitCode = 1
+  }
+}
+
+function putObjectCommand(
+  argv: ArgumentsCamelCase<
+    GenericCmdArgs & ObjectMetadataArgs & {
+      bucket: string
+      object: string
+      file?: string
+      simple?: boolean
+      'is-etag'?: string
+      'not-etag'?: string
+      'uploaded-before'?: string
+      'uploaded-after'?: string
+      'multipart-threshold': number
+      'part-size': number
+      concurrency: number
+      resumable?: boolean
+    }
+  >,
+  commandHandler: CommandHandler,
+  progressBarCreator: ProgressBarCreator,
+): Promise<void> | void {
+  // yargs turns a lone `-` into an empty string.
+  const file = argv.file === '' ? '-' : argv.file ?? argv.object
+  // Conditional uploads and presigned URLs are a single request so those always use a plain PUT.
+  const conditional = argv['is-etag'] || argv['not-etag'] || argv['uploaded-after'] || argv['uploaded-before']
+  // stdin, FIFOs and the like can't be measured or read twice, so they're buffered part by part instead.
+  if (!argv.simple && (file === '-' || !statSync(file).isFile())) {
+    if (argv.presign || conditional || argv.resumable) {
+      const source = file === '-' ? 'stdin' : file
+      console.error(
+        `Can't upload from ${source} with --presign, --resumable or a conditional option since it can only be read once`,
+      )
+      process.exitCode = 1
+      return
+    }
+    return putObjectStreamCommand(
+      argv,
+      { Bucket: argv.bucket, Key: argv.object, ...objectMetadataFromArgs(argv) },
+      file,
+      { partSize: argv['part-size'], concurrency: argv.concurrency },
+      progressBarCreator,
+    )
+  }
+  if (
+    argv.resumable ||
+    (!argv.simple && !argv.presign && !conditional && statSync(file).size > argv['multipart-threshold'])
+  ) {
+    return putObjectMultipartCommand(
+      argv,
+      { Bucket: argv.bucket, Key: argv.object, ...objectMetadataFromArgs(argv) },
+      file,
+      { partSize: argv['part-size'], concurrency: argv.concurrency },
+      argv.resumable ?? false,
+      progressBarCreator,
+    )
+  }
+
+  return commandHandler(
+    argv,
+    new S3.PutObjectCommand({
+      Bucket: argv.bucket,
+      Key: argv.object,
+      Body: (() => {
+        if (argv.simple) {
+          if (argv.file === undefined) {
+            throw new Error('--simple provided but no value provided')
+          }
+          return argv.file
+        }
+
+        return createReadStream(argv.file ?? argv.object, 'binary')
+      })(),
+      ContentLength: (() => {
+        if (argv.simple) { return undefined }
+        return statSync(argv.file ?? argv.object).size
+      })(),
+      ...objectMetadataFromArgs(argv),
+    }),
+    {
+      ...(argv['is-etag'] && { 'IfMatch': argv['is-etag'] }),
+      ...(argv['not-etag'] && { 'IfNoneMatch': argv['not-etag'] }),
+      ...(argv['uploaded-after'] && { 'IfModifiedSince': argv['uploaded-before'] }),
+      ...(argv['uploaded-before'] && { 'IfUnmodifiedSince': argv['uploaded-before'] }),
+    },
+  )
+}
+
+async function putObjectMultipartCommand(
+  argv: ArgumentsCamelCase<GenericCmdArgs>,
+  input: S3.CreateMultipartUploadCommandInput & { Bucket: string; Key: string },
+  file: string,
+  options: MultipartOptions,
+  resumable: boolean,
+  progressBarCreator: ProgressBarCreator,
+): Promise<void> {
+  const valid = validateMultipartOptions(options)
+  if (valid.err) {
+    console.error(valid.val.message)
+    process.exitCode = 1
+    return
+  }
+
+  const checkpointDir = uploadCheckpointDirectory()
+  if (resumable && checkpointDir === undefined) {
+    console.error('Unable to find somewhere to keep upload checkpoints. Set R2_UPLOAD_CHECKPOINT_DIR.')
+    process.exitCode = 1
+    return
+  }
+
+  const created = await createClient(argv)
+  if (created.err) {
+    if (created.val.message) {
+      console.error(created.val.message)
+    }
+    process.exitCode = 1
+    return
+  }
+
+  const stats = statSync(file)
+  const progressBar = progressBarCreator({ description: file })
+  progressBar.start(stats.size, 0, { speed: 'N/A' })
+  const onProgress = progressWithSpeed(progressBar)
+
+  const response = resumable ?
+    await putFileResumable(
+      created.val,
+      input,
+      file,
+      { file: path.resolve(file), size: stats.size, mtimeMs: stats.mtimeMs },
+      options,
+      checkpointDir!,
+      onProgress,
+    ) :
+    await putFileMultipart(created.val, input, file, stats.size, options, onProgress)
+  progressBar.stop()
+
+  if (response.err) {
+    console.error(`Failed ${argv._.join(' ')}: ${response.val.message}`)
+    process.exitCode = 1
+    return
+  }
+  printResponse(argv, response.val)
+}
+
+async function putObjectStreamCommand(
+  argv: ArgumentsCamelCase<GenericCmdArgs>,
+  input: S3.CreateMultipartUploadCommandInput & { Bucket: string; Key: string },
+  file: string,
+  options: MultipartOptions,
+  progressBarCreator: ProgressBarCreator,
+): Promise<void> {
+  const valid = validateMultipartOptions(options)
+  if (valid.err) {
+    console.error(valid.val.message)
+    process.exitCode = 1
+    return
+  }
+
+  const created = await createClient(argv)
+  if (created.err) {
+    if (created.val.message) {
+      console.error(created.val.message)
+    }
+    process.exitCode = 1
+    return
+  }
+
+  const stream = file === '-' ? process.stdin : createReadStream(file)
+  const progressBar = progressBarCreator({ description: file === '-' ? 'stdin' : file, unknownTotal: true })
+  progressBar.start(0, 0, { speed: 'N/A' })
+
+  const response = await putStreamMultipart(created.val, input, stream, options, progressWithSpeed(progressBar))
+  progressBar.stop()
+
+  if (response.err) {
+    console.error(`Failed ${argv._.join(' ')}: ${response.val.message}`)
+    process.exitCode = 1
+    return
+  }
+  printResponse(argv, response.val)
+}
+
+async function copyObjectCommand(
+  argv: ArgumentsCamelCase<
+    GenericCmdArgs & ObjectMetadataArgs & {
+      'src-bucket': string
+      'src-key': string
+      'dst-bucket': string
+      'dst-key': string
+      'metadata-directive': string
+      'copy-source-if-match'?: string
+      'copy-source-if-none-match'?: string
+      'copy-source-if-modified-since'?: string
+      'copy-source-if-unmodified-since'?: string
+      'part-size': number
+      concurrency: number
+    }
+  >,
+  commandHandler: CommandHandler,
+  progressBarCreator: ProgressBarCreator,
+): Promise<void> {
+  const replace = argv['metadata-directive'] === 'REPLACE'
+  const metadataOptions = [
+    'meta',
+    'cache-control',
+    'content-disposition',
+    'content-encoding',
+    'content-language',
+    'content-type',
+    'expires',
+  ] as const
+  if (!replace && metadataOptions.some((option) => argv[option] !== undefined)) {
+    console.error('Metadata options only apply with --metadata-directive REPLACE')
+    process.exitCode = 1
+    return
+  }
+
+  // Bucket-scoped tokens are picked by the bucket that's written to.
+  const args = { ...argv, bucket: argv['dst-bucket'], object: argv['dst-key'] }
+  const input = { Bucket: argv['dst-bucket'], Key: argv['dst-key'], ...(replace && objectMetadataFromArgs(argv)) }
+  const source = { Bucket: argv['src-bucket'], Key: argv['src-key'] }
+  const conditions = {
+    CopySourceIfMatch: argv['copy-source-if-match'],
+    CopySourceIfNoneMatch: argv['copy-source-if-none-match'],
+    CopySourceIfModifiedSince: argv['copy-source-if-modified-since'] ?
+      new Date(argv['copy-source-if-modified-since']) :
+      undefined,
+    CopySourceIfUnmodifiedSince: argv['copy-source-if-unmodified-since'] ?
+      new Date(argv['copy-source-if-unmodified-since']) :
+      undefined,
+  }
+  if (argv.presign) {
+    return commandHandler(
+      args,
+      new S3.CopyObjectCommand({
+        ...input,
+        ...conditions,
+        CopySource: copySource(source.Bucket, source.Key),
+        MetadataDirective: argv['metadata-directive'],
+      }),
+    )
+  }
+
+  const options = { partSize: argv['part-size'], concurrency: argv.concurrency }
+  const valid = validateMultipartOptions(options)
+  if (valid.err) {
+    console.error(valid.val.message)
+    process.exitCode = 1
+    return
+  }
+
+  const created = await createClient(args)
+  if (created.err) {
+    if (created.val.message) {
+      console.error(created.val.message)
+    }
+    process.exitCode = 1
+    return
+  }
+
+  let progressBar: ReturnType<ProgressBarCreator> | undefined
+  const response = await copyObject(created.val, input, source, conditions, replace, options, (size) => {
+    progressBar = progressBarCreator({ description: `${source.Bucket}/${source.Key}` })
+    progressBar.start(size, 0, { speed: 'N/A' })
+    return progressWithSpeed(progressBar)
+  })
+  progressBar?.stop()
+
+  if (response.err) {
+    console.error(`Failed ${argv._.join(' ')}: ${response.val.message}`)
+    process.exitCode = 1
+    return
+  }
+  printResponse(argv, response.val)
+}
+
+async function deletePrefixCommand(
+  argv: ArgumentsCamelCase<
+    GenericCmdArgs & { bucket: string; prefix: string; yes?: boolean; 'dry-run'?: boolean; concurrency: number }
+  >,
+  progressBarCreator: ProgressBarCreator,
+): Promise<void> {
+  if (argv.presign) {
+    console.error("delete-prefix takes more than one request so it can't be presigned")
+    process.exitCode = 1
+    return
+  }
+  if (!Number.isInteger(argv.concurrency) || argv.concurrency < 1) {
+    console.error('The concurrency must be a positive integer')
+    process.exitCode = 1
+    return
+  }
+
+  const created = await createClient(argv)
+  if (created.err) {
+    if (created.val.message) {
+      console.error(created.val.message)
+    }
+    process.exitCode = 1
+    return
+  }
+  const client = created.val
+
+  const objects: S3._Object[] = []
+  try {
+    for await (const page of listObjectPages(client, { Bucket: argv.bucket, Prefix: argv.prefix })) {
+      objects.push(...page.Contents ?? [])
+    }
+  } catch (e) {
+    console.error(`Failed ${argv._.join(' ')}: ${describeError(e)}`)
+    process.exitCode = 1
+    return
+  }
+
+  const sizeFormat = sizeFormatter({ std: 'IEC', decimalPlaces: 2, keepTrailingZeroes: false })
+  const bytes = objects.reduce((sum, object) => sum + (object.Size ?? 0), 0)
+  const found = `${countOf(objects.length, 'object')} (${sizeFormat(bytes)}) under ${argv.bucket}/${argv.prefix}`
+  if (objects.length === 0) {
+    console.info(`There are no objects under ${argv.bucket}/${argv.prefix}`)
+    return
+  }
+  if (argv['dry-run']) {
+    for (const object of objects) {
+      console.info(object.Key)
+    }
+    console.info(`Would delete ${found}`)
+    return
+  }
+
+  await confirmAndDelete(client, argv.bucket, objects.map((object) => object.Key!), found, {
+    yes: argv.yes,
+    concurrency: argv.concurrency,
+  }, progressBarCreator)
+}
+
+// Asks before deleting the keys, described by `found`, unless `yes` is set. Without a terminal to ask on, `yes` has to
+// be set for anything to be deleted.
+export async function confirmAndDelete(
+  client: S3.S3,
+  bucket: string,
+  keys: string[],
+  found: string,
+  options: { yes?: boolean; concurrency: number },
+  progressBarCreator: ProgressBarCreator,
+): Promise<void> {
+  if (!options.yes) {
+    if (!process.stdin.isTTY) {
+      console.error(`Not deleting ${found} without confirmation. Pass --yes to go ahead.`)
+      process.exitCode = 1
+      return
+    }
+    const prompt = inquirer.createPromptModule()
+    const answer = await prompt({ name: 'confirm', message: `Delete ${found}?`, type: 'confirm', default: false })
+    if (!answer.confirm) {
+      return
+    }
+  }
+
+  const result = await deleteWithProgress(client, bucket, keys, options.concurrency, progressBarCreator)
+  if (result.failures.length !== 0 || result.interrupted) {
+    process.exitCode = 1
+  }
+}
+
+// Deletes keys with a progress bar counting the objects deleted, and reports how it went. Ctrl-C stops any more
+// batches from being sent.
+async function deleteWithProgress(
+  client: S3.S3,
+  bucket: string,
+  keys: string[],
+  concurrency: number,
+  progressBarCreator: ProgressBarCreator,
+): Promise<{ failures: string[]; interrupted: boolean }> {
+  const progressBar = progressBarCreator({ description: 'Deleting' })
+  progressBar.start(keys.length, 0, { speed: 'N/A' })
+  const measurementStart = Date.now()
+  let deleted = 0
+  const controller = new AbortController()
+  const failures = await abortOnInterrupt(
+    controller,
+    () =>
+      deleteKeys(client, bucket, keys, concurrency, controller.signal, (count) => {
+        deleted += count
+        const elapsedSeconds = (Date.now() - measurementStart) / 1000
+        progressBar.increment(count, { speed: `${Math.round(deleted / elapsedSeconds)} objects/s` })
+      }),
+  )
+  progressBar.stop()
+
+  for (const failure of failures) {
+    console.error(`Failed to delete ${failure}`)
+  }
+  const failedSummary = failures.length !== 0 ? `, ${failures.length} failed` : ''
+  console.info(`Deleted ${countOf(deleted, 'object')} of ${keys.length}${failedSummary}`)
+  return { failures, interrupted: controller.signal.aborted }
+}
+
+async function deleteBucketCommand(
+  argv: ArgumentsCamelCase<GenericCmdArgs & { bucket: string; force?: boolean; yes?: boolean; concurrency: number }>,
+  progressBarCreator: ProgressBarCreator,
+): Promise<void> {
+  if (!Number.isInteger(argv.concurrency) || argv.concurrency < 1) {
+    console.error('The concurrency must be a positive integer')
+    process.exitCode = 1
+    return
+  }
+
+  const created = await createClient(argv)
+  if (created.err) {
+    if (created.val.message) {
+      console.error(created.val.message)
+    }
+    process.exitCode = 1
+    return
+  }
+  const client = created.val
+
+  // Find out what's in the bucket up front so that the confirmation can say what's about to be deleted.
+  const keys: string[] = []
+  let uploads: S3.MultipartUpload[] = []
+  if (argv.force) {
+    try {
+      for await (const page of listObjectPages(client, { Bucket: argv.bucket })) {
+        keys.push(...(page.Contents ?? []).map((object) => object.Key!))
+      }
+      uploads = await listAllUploads(client, argv.bucket)
+    } catch (e) {
+      console.error(`Failed ${argv._.join(' ')}: ${describeError(e)}`)
+      process.exitCode = 1
+      return
+    }
+  }
+
+  if (!argv.yes) {
+    if (!process.stdin.isTTY) {
+      console.error(`Not deleting ${argv.bucket} without confirmation. Pass --yes to go ahead.`)
+      process.exitCode = 1
+      return
+    }
+    const contents = argv.force ?
+      ` along with ${countOf(keys.length, 'object')} and ${countOf(uploads.length, 'multipart upload')}` :
+      ''
+    const prompt = inquirer.createPromptModule()
+    const answer = await prompt({
+      name: 'bucket',
+      message: `This deletes ${argv.bucket}${contents}. Type the name of the bucket to confirm:`,
+      type: 'input',
+    })
+    if (answer.bucket !== argv.bucket) {
+      console.error(`${answer.bucket} doesn't match, not deleting ${argv.bucket}`)
+      process.exitCode = 1
+      return
+    }
+  }
+
+  if (keys.length !== 0) {
+    const result = await deleteWithProgress(client, argv.bucket, keys, argv.concurrency, progressBarCreator)
+    if (result.failures.length !== 0 || result.interrupted) {
+      console.error(`Not deleting ${argv.bucket} since it still has objects in it`)
+      process.exitCode = 1
+      return
+    }
+  }
+  if (uploads.length !== 0) {
+    const failures = await abortUploads(client, argv.bucket, uploads, argv.concurrency)
+    for (const failure of failures) {
+      console.error(`Failed to abort ${failure}`)
+    }
+    console.info(`Aborted ${countOf(uploads.length - failures.length, 'multipart upload')} of ${uploads.length}`)
+    if (failures.length !== 0) {
+      console.error(`Not deleting ${argv.bucket} since it still has multipart uploads in progress`)
+      process.exitCode = 1
+      return
+    }
+  }
+
+  try {
+    await client.send(new S3.DeleteBucketCommand({ Bucket: argv.bucket }))
+  } catch (e) {
+    console.error(`Failed ${argv._.join(' ')}: ${describeError(e)}`)
+    if ((e as Error).name === 'BucketNotEmpty') {
+      console.error(
+        argv.force ? 'Something was written to it while it was being emptied.' : 'Use --force to empty it first.',
+      )
+    }
+    process.exitCode = 1
+    return
+  }
+  console.info(`Deleted bucket ${argv.bucket}`)
+}
+
+function listBucketsCommand(
+  argv: ArgumentsCamelCase<
+    GenericCmdArgs & {
+      prefix?: string
+      'start-after'?: string
+      'continuation-token'?: string
+      'max-keys'?: number
+      all?: boolean
+      limit?: number
+    }
+  >,
+  commandHandler: CommandHandler,
+): Promise<void> | void {
+  const headers = {
+    ...(argv.prefix !== undefined && { 'cf-prefix': argv.prefix }),
+    ...(argv['start-after'] !== undefined && { 'cf-start-after': argv['start-after'] }),
+    ...(argv['continuation-token'] !== undefined && { 'cf-continuation-token': argv['continuation-token'] }),
+    ...(argv['max-keys'] !== undefined && { 'cf-max-keys': argv['max-keys'].toString() }),
+  }
+  if (argv.all || argv.limit !== undefined) {
+    return listPagesCommand(argv, (client) => listBucketPages(client, headers, argv.limit))
+  }
+  return commandHandler(argv, new S3.ListBucketsCommand({}), headers)
+}
+
+// Each page of a listing is printed as soon as it arrives so that a long listing doesn't have to be held in memory.
+// json, yaml and table print a single document though, so for those the pages are merged and printed at the end.
+async function listPagesCommand<Page extends AWSTypes.MetadataBearer>(
+  argv: ArgumentsCamelCase<GenericCmdArgs>,
+  pages: (client: S3.S3) => AsyncGenerator<Page>,
+): Promise<void> {
+  const created = await createClient(argv)
+  if (created.err) {
+    if (created.val.message) {
+      console.error(created.val.message)
+    }
+    process.exitCode = 1
+    return
+  }
+
+  const streamed = argv.output !== 'json' && argv.output !== 'yaml' && argv.output !== 'table'
+  const gathered: Page[] = []
+  try {
+    for await (const page of pages(created.val)) {
+      if (streamed) {
+        printResponse(argv, page)
+      } else {
+        gathered.push(page)
+      }
+    }
+  } catch (e) {
+    const err = (e as Error & AWSTypes.MetadataBearer)
+    console.error(`Failed ${argv._.join(' ')}: ${err['$metadata']?.httpStatusCode} ${err.message}`)
+    process.exitCode = 1
+    return
+  }
+
+  const [first, ...rest] = gathered
+  if (first !== undefined) {
+    printResponse(argv, mergePages(first, ...rest))
+  }
+}
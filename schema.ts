@@ -0,0 +1,191 @@
+import TOML from '@iarna/toml'
+import { Err, Ok, Result } from 'ts-results'
+import { CredentialStoreName, credentialStoreNames, isCredentialStoreName } from './creds'
+import { globToRegExp } from './util'
+
+// Bump this whenever the layout of r2.toml changes and teach migrateR2Config how to get there from the previous one.
+export const CURRENT_CONFIG_VERSION = 1
+
+export const jurisdictions = ['eu', 'fedramp'] as const
+export type Jurisdiction = typeof jurisdictions[number]
+
+export function isJurisdiction(name: unknown): name is Jurisdiction {
+  return typeof name === 'string' && (jurisdictions as readonly string[]).includes(name)
+}
+
+export type ProfileInfo = {
+  account: string
+  access_key_id: string
+  store?: CredentialStoreName
+  // Buckets created in a jurisdiction are only reachable through <account>.<jurisdiction>.r2.cloudflarestorage.com.
+  jurisdiction?: Jurisdiction
+  // Send requests somewhere other than R2 entirely (e.g. a local MinIO). Takes precedence over jurisdiction.
+  endpoint?: string
+  // Bucket names (or globs like `logs-*`) a bucket-scoped token has access to. Unset means every bucket.
+  buckets?: string[]
+}
+
+export function profileAllowsBucket(info: ProfileInfo, bucket: string): boolean {
+  return info.buckets === undefined || info.buckets.some((pattern) => globToRegExp(pattern).test(bucket))
+}
+
+export type R2ConfigFile = {
+  version: number
+  // The profile to use when nothing more specific (--account, R2_PROFILE, .r2profile) picks one. Set by `config use`.
+  default_profile?: string
+  profiles: Record<string, ProfileInfo>
+}
+
+function isHttpURL(url: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol)
+  } catch (e) {
+    return false
+  }
+}
+
+function isTable(value: unknown): value is TOML.JsonMap {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
+
+// Version 0 is anything written before r2.toml was versioned: every top-level table is a profile. `config add` wrote
+// the account under `account` while `config import` wrote it under `account_id`.
+function migrateFromV0(raw: TOML.JsonMap): TOML.JsonMap {
+  const profiles: TOML.JsonMap = {}
+  for (const [name, value] of Object.entries(raw)) {
+    if (!isTable(value)) {
+      continue
+    }
+
+    const { account_id, ...rest } = value
+    profiles[name] = {
+      ...rest,
+      ...(rest['account'] === undefined && account_id !== undefined && { account: account_id }),
+    }
+  }
+  return { version: 1, profiles }
+}
+
+function migrateR2Config(raw: TOML.JsonMap): Result<{ raw: TOML.JsonMap; migrated: boolean }, Error> {
+  const version = raw['version'] ?? 0
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    return Err(new Error(`version must be a non-negative integer`))
+  }
+
+  if (version > CURRENT_CONFIG_VERSION) {
+    return Err(
+      new Error(
+        `version ${version} is newer than the newest version (${CURRENT_CONFIG_VERSION}) this version of r2 understands`,
+      ),
+    )
+  }
+
+  let migrated = raw
+  if (version < 1) {
+    migrated = migrateFromV0(migrated)
+  }
+
+  return Ok({ raw: migrated, migrated: migrated !== raw })
+}
+
+function validateProfile(name: string, value: unknown, problems: string[]): ProfileInfo | undefined {
+  if (!isTable(value)) {
+    problems.push(`profiles.${name} must be a table`)
+    return undefined
+  }
+
+  const { account, access_key_id, store, jurisdiction, endpoint, buckets, ...unknownKeys } = value
+  const before = problems.length
+
+  if (typeof account !== 'string' || account === '') {
+    problems.push(`profiles.${name}.account must be a non-empty string`)
+  }
+  if (typeof access_key_id !== 'string' || access_key_id === '') {
+    problems.push(`profiles.${name}.access_key_id must be a non-empty string`)
+  }
+  if (store !== undefined && !isCredentialStoreName(store)) {
+    problems.push(`profiles.${name}.store must be one of ${credentialStoreNames.join(', ')}`)
+  }
+  if (jurisdiction !== undefined && !isJurisdiction(jurisdiction)) {
+    problems.push(`profiles.${name}.jurisdiction must be one of ${jurisdictions.join(', ')}`)
+  }
+  if (endpoint !== undefined) {
+    if (jurisdiction !== undefined) {
+      problems.push(`profiles.${name} can't set both jurisdiction and endpoint`)
+    }
+    if (typeof endpoint !== 'string' || !isHttpURL(endpoint)) {
+      problems.push(`profiles.${name}.endpoint must be an http:// or https:// URL`)
+    }
+  }
+  if (
+    buckets !== undefined &&
+    (!Array.isArray(buckets) || !(buckets as unknown[])
+      .every((bucket) => typeof bucket === 'string' && bucket !== ''))
+  ) {
+    problems.push(`profiles.${name}.buckets must be a list of bucket names or patterns`)
+  }
+  for (const key of Object.keys(unknownKeys)) {
+    problems.push(`profiles.${name}.${key} is not a recognized setting`)
+  }
+
+  if (problems.length !== before) {
+    return undefined
+  }
+
+  return {
+    account: account as string,
+    access_key_id: access_key_id as string,
+    ...(store !== undefined && { store: store as CredentialStoreName }),
+    ...(jurisdiction !== undefined && { jurisdiction: jurisdiction as Jurisdiction }),
+    ...(endpoint !== undefined && { endpoint: endpoint as string }),
+    ...(buckets !== undefined && { buckets: buckets as string[] }),
+  }
+}
+
+// Migrates and validates the parsed contents of r2.toml. `migrated` indicates that the file on disk is out of date and
+// should be rewritten.
+export function parseR2Config(raw: TOML.JsonMap): Result<{ config: R2ConfigFile; migrated: boolean }, Error> {
+  const upgraded = migrateR2Config(raw)
+  if (upgraded.err) {
+    return upgraded
+  }
+
+  const problems: string[] = []
+
+  const { version, default_profile, profiles = {}, ...unknownKeys } = upgraded.val.raw
+  for (const key of Object.keys(unknownKeys)) {
+    problems.push(`${key} is not a recognized setting`)
+  }
+
+  const config: R2ConfigFile = { version: version as number, profiles: {} }
+  if (!isTable(profiles)) {
+    problems.push('profiles must be a table')
+  } else {
+    for (const [name, value] of Object.entries(profiles)) {
+      const profile = validateProfile(name, value, problems)
+      if (profile !== undefined) {
+        config.profiles[name] = profile
+      }
+    }
+  }
+
+  if (default_profile !== undefined) {
+    if (typeof default_profile !== 'string') {
+      problems.push('default_profile must be a string')
+    } else if (isTable(profiles) && !(default_profile in profiles)) {
+      problems.push(`default_profile refers to a profile named '${default_profile}' that doesn't exist`)
+    } else {
+      config.default_profile = default_profile
+    }
+  }
+
+  if (problems.length !== 0) {
+    return Err(new Error(problems.join('\n')))
+  }
+
+  return Ok({ config, migrated: upgraded.val.migrated })
+}
+
+export function serializeR2Config(config: R2ConfigFile): string {
+  return TOML.stringify(config as unknown as TOML.JsonMap)
+}
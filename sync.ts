@@ -0,0 +1,248 @@
+import { ArgumentsCamelCase } from 'yargs'
+import { deleteKeys } from './deletion'
+import { ProgressBarCreator } from './main'
+import { describeError } from './multipart'
+import { ObjectMetadataArgs, objectMetadataFromArgs } from './s3'
+import { connectEndpoints, destinationPath, Endpoint, Entry, formatLocation, hasMetadataArgs, listTree, Location, ObjectMetadata, parseLocations, PlannedCopy, planTree, runTransfers, sizeFormat } from './transfer'
+import { countOf, fileMd5, forEachConcurrently, removeFile } from './util'
+
+export interface SyncArgs extends ObjectMetadataArgs {
+  source: string
+  destination: string
+  delete?: boolean
+  'dry-run'?: boolean
+  checksum?: boolean
+  concurrency: number
+  account?: string
+  verbose?: boolean
+}
+
+// The MD5 of a file, or of an object if its ETag is one. Objects uploaded in parts have an ETag derived from the parts
+// instead, which can't be compared with anything but another ETag from the same parts.
+async function contentHash(side: { location: Location; path: string; entry: Entry }): Promise<string | undefined> {
+  if (side.location.kind === 'local') {
+    return fileMd5(side.path)
+  }
+  const etag = side.entry.etag?.replace(/"/g, '')
+  return etag !== undefined && /^[0-9a-f]{32}$/.test(etag) ? etag : undefined
+}
+
+// Listings have millisecond timestamps but the Last-Modified header that downloads are stamped with only has seconds.
+function seconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000)
+}
+
+// Anything whose size differs or that's been modified since it was last synced is transferred again. With `checksum`
+// the contents are compared where possible instead, so that e.g. a rebuilt but identical file is left alone.
+async function isChanged(
+  from: Endpoint,
+  to: Endpoint,
+  item: PlannedCopy,
+  existing: Entry | undefined,
+  checksum: boolean,
+): Promise<boolean> {
+  if (existing === undefined || existing.size !== item.entry.size) {
+    return true
+  }
+  if (checksum) {
+    const source = { location: from.location, path: item.source, entry: item.entry }
+    const destination = { location: to.location, path: item.destination, entry: existing }
+    // The object first so that a file isn't hashed for nothing.
+    const [first, second] = from.location.kind === 'r2' ? [source, destination] : [destination, source]
+    const firstHash = await contentHash(first)
+    const secondHash = firstHash !== undefined ? await contentHash(second) : undefined
+    if (firstHash !== undefined && secondHash !== undefined) {
+      return firstHash !== secondHash
+    }
+  }
+  return seconds(item.entry.modified) > seconds(existing.modified)
+}
+
+async function deleteExtras(
+  to: Endpoint,
+  extras: string[],
+  concurrency: number,
+): Promise<{ deleted: number; failures: string[] }> {
+  if (to.location.kind === 'r2') {
+    let deleted = 0
+    const failures = await deleteKeys(
+      to.client!,
+      to.location.bucket,
+      extras,
+      concurrency,
+      undefined,
+      (count) => deleted += count,
+    )
+    return { deleted, failures }
+  }
+
+  let deleted = 0
+  const failures: string[] = []
+  for (const file of extras) {
+    try {
+      await removeFile(file)
+      deleted++
+    } catch (e) {
+      failures.push(`${file}: ${describeError(e)}`)
+    }
+  }
+  return { deleted, failures }
+}
+
+function transferVerb(from: Location, to: Location): string {
+  if (from.kind === 'local') {
+    return 'upload'
+  }
+  return to.kind === 'local' ? 'download' : 'copy'
+}
+
+export async function syncCommand(
+  argv: ArgumentsCamelCase<SyncArgs>,
+  progressBarCreator: ProgressBarCreator,
+): Promise<void> {
+  if (!Number.isInteger(argv.concurrency) || argv.concurrency < 1) {
+    console.error('The concurrency must be a positive integer')
+    process.exitCode = 1
+    return
+  }
+
+  const locations = parseLocations(argv.source, argv.destination)
+  if (locations.err) {
+    console.error(locations.val.message)
+    process.exitCode = 1
+    return
+  }
+
+  const replaceMetadata = hasMetadataArgs(argv)
+  if (replaceMetadata && locations.val[1].kind === 'local') {
+    console.error('Metadata options only apply when syncing to R2')
+    process.exitCode = 1
+    return
+  }
+  let metadata: ObjectMetadata
+  try {
+    metadata = objectMetadataFromArgs(argv)
+  } catch (e) {
+    console.error((e as Error).message)
+    process.exitCode = 1
+    return
+  }
+
+  const connected = await connectEndpoints(argv, ...locations.val)
+  if (connected.err) {
+    if (connected.val.message) {
+      console.error(connected.val.message)
+    }
+    process.exitCode = 1
+    return
+  }
+  const [from, to] = connected.val
+
+  let sourceEntries: Map<string, Entry>
+  let destinationEntries: Map<string, Entry>
+  try {
+    const listed = await listTree(from)
+    if (listed.err) {
+      console.error(listed.val.message)
+      process.exitCode = 1
+      return
+    }
+    sourceEntries = listed.val
+  } catch (e) {
+    console.error(`Unable to list ${argv.source}: ${describeError(e)}`)
+    process.exitCode = 1
+    return
+  }
+  try {
+    // Syncing into a local directory that doesn't exist yet creates it.
+    const listed = await listTree(to, new Map())
+    if (listed.err) {
+      console.error(listed.val.message)
+      process.exitCode = 1
+      return
+    }
+    destinationEntries = listed.val
+  } catch (e) {
+    console.error(`Unable to list ${argv.destination}: ${describeError(e)}`)
+    process.exitCode = 1
+    return
+  }
+
+  // The two listings are compared by their paths relative to the directory or prefix on either side.
+  const planned = planTree(from.location, to.location, sourceEntries)
+  const verdicts: boolean[] = []
+  const failures: string[] = []
+  await forEachConcurrently([...planned.keys()], argv.concurrency, undefined, async (idx) => {
+    const item = planned[idx]!
+    try {
+      const existing = destinationEntries.get(item.relative!)
+      verdicts[idx] = await isChanged(from, to, item, existing, argv.checksum ?? false)
+    } catch (e) {
+      failures.push(`${item.source}: ${describeError(e)}`)
+    }
+  })
+  const changed = planned.filter((_, idx) => verdicts[idx] === true)
+  const unchanged = verdicts.filter((verdict) => verdict === false).length
+
+  const extras = argv.delete ?
+    [...destinationEntries.keys()].filter((relative) => !sourceEntries.has(relative)).map((relative) =>
+      destinationPath(to.location, relative)!
+    ) :
+    []
+
+  const verb = transferVerb(from.location, to.location)
+  if (argv['dry-run']) {
+    for (const item of changed) {
+      console.info(`Would ${verb} ${item.source} to ${item.destination} (${sizeFormat(item.entry.size)})`)
+    }
+    for (const extra of extras) {
+      console.info(`Would delete ${to.location.kind === 'r2' ? formatLocation({ ...to.location, key: extra }) : extra}`)
+    }
+    const bytes = changed.reduce((sum, item) => sum + item.entry.size, 0)
+    const deleteSummary = argv.delete ? `, delete ${countOf(extras.length, 'file')}` : ''
+    const failedSummary = failures.length !== 0 ? `, ${failures.length} failed` : ''
+    for (const failure of failures) {
+      console.error(`Failed ${failure}`)
+    }
+    console.info(
+      `Would ${verb} ${countOf(changed.length, 'file')} (${
+        sizeFormat(bytes)
+      })${deleteSummary}, ${unchanged} unchanged${failedSummary}`,
+    )
+    if (failures.length !== 0) {
+      process.exitCode = 1
+    }
+    return
+  }
+
+  const result = await runTransfers(from, to, changed, {
+    metadata,
+    replaceMetadata,
+    concurrency: argv.concurrency,
+    description: 'sync',
+  }, progressBarCreator)
+  failures.push(...result.failures)
+
+  // Pruning is left until everything else has been transferred, and skipped altogether if that was cut short.
+  let deleted = 0
+  if (extras.length !== 0 && !result.interrupted) {
+    const pruned = await deleteExtras(to, extras, argv.concurrency)
+    deleted = pruned.deleted
+    failures.push(...pruned.failures)
+  }
+
+  for (const failure of failures) {
+    console.error(`Failed ${failure}`)
+  }
+  const past = { upload: 'Uploaded', download: 'Downloaded', copy: 'Copied' }[verb]
+  const deleteSummary = argv.delete ? `, deleted ${deleted}` : ''
+  const failedSummary = failures.length !== 0 ? `, ${failures.length} failed` : ''
+  console.info(
+    `${past} ${countOf(result.transferred, 'file')} (${
+      sizeFormat(result.bytes)
+    })${deleteSummary}, ${unchanged} unchanged${failedSummary}`,
+  )
+  if (failures.length !== 0 || result.interrupted) {
+    process.exitCode = 1
+  }
+}
@@ -0,0 +1,623 @@
+import * as S3 from '@aws-sdk/client-s3'
+import * as AWSTypes from '@aws-sdk/types'
+import { sizeFormatter } from 'human-readable'
+import fs from 'node:fs'
+import path from 'node:path'
+import { Readable, Transform } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { Err, Ok, Result } from 'ts-results'
+import { ArgumentsCamelCase } from 'yargs'
+import { listObjectPages } from './listing'
+import { ProgressBarCreator } from './main'
+import { abortOnInterrupt, copyObject, defaultConcurrency, defaultCopyPartSize, defaultMultipartThreshold, defaultPartSize, describeError, putFileMultipart } from './multipart'
+import { createClient, ObjectMetadataArgs, objectMetadataFromArgs, progressWithSpeed } from './s3'
+import { countOf, forEachConcurrently, makeDirectory, readFileRange, removeFile } from './util'
+
+export interface LocalLocation {
+  kind: 'local'
+  path: string
+}
+
+export interface R2Location {
+  kind: 'r2'
+  // The saved profile to use instead of the one picked for the bucket.
+  profile?: string
+  bucket: string
+  key: string
+}
+
+export type Location = LocalLocation | R2Location
+
+const r2Scheme = 'r2://'
+
+// `r2://[profile@]bucket/key` is a location in R2 and anything else is a local path.
+export function parseLocation(spec: string): Result<Location, Error> {
+  if (!spec.startsWith(r2Scheme)) {
+    return Ok({ kind: 'local', path: spec })
+  }
+
+  const rest = spec.slice(r2Scheme.length)
+  const slash = rest.indexOf('/')
+  const authority = slash === -1 ? rest : rest.slice(0, slash)
+  const at = authority.lastIndexOf('@')
+  const profile = at === -1 ? undefined : authority.slice(0, at)
+  const bucket = authority.slice(at + 1)
+  if (bucket === '' || profile === '') {
+    return Err(new Error(`${spec} isn't a valid location. Expected r2://[profile@]bucket/key`))
+  }
+  return Ok({ kind: 'r2', profile, bucket, key: slash === -1 ? '' : rest.slice(slash + 1) })
+}
+
+// Parses both sides of a transfer, at least one of which has to be in R2.
+export function parseLocations(source: string, destination: string): Result<[Location, Location], Error> {
+  const from = parseLocation(source)
+  if (from.err) {
+    return from
+  }
+  const to = parseLocation(destination)
+  if (to.err) {
+    return to
+  }
+  if (from.val.kind === 'local' && to.val.kind === 'local') {
+    return Err(new Error('At least one side has to be an r2:// location'))
+  }
+  return Ok([from.val, to.val])
+}
+
+export function formatLocation(location: Location, relative = ''): string {
+  if (location.kind === 'local') {
+    return relative === '' ? location.path : path.join(location.path, ...relative.split('/'))
+  }
+  const profile = location.profile !== undefined ? `${location.profile}@` : ''
+  return `${r2Scheme}${profile}${location.bucket}/${location.key}${relative}`
+}
+
+// What's needed to decide whether something has to be transferred.
+export interface Entry {
+  size: number
+  modified: Date
+  // Only known for objects.
+  etag?: string
+}
+
+// Turns a prefix into one that only matches whole path segments, so that `photos` doesn't also pick up
+// `photos-old/...`.
+export function directoryPrefix(key: string): string {
+  return key === '' || key.endsWith('/') ? key : `${key}/`
+}
+
+// Files under `dir` keyed by their path relative to it, with `/` separators so that it can be appended to a key.
+// Symlinks to files are followed but symlinked directories are skipped so that a loop can't recurse forever.
+export async function listLocalFiles(
+  dir: string,
+  relative = '',
+  into = new Map<string, Entry>(),
+): Promise<Map<string, Entry>> {
+  const dirents = await fs.promises.readdir(path.join(dir, ...relative.split('/')), { withFileTypes: true })
+  for (const dirent of dirents.sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0)) {
+    const name = relative === '' ? dirent.name : `${relative}/${dirent.name}`
+    if (dirent.isDirectory()) {
+      await listLocalFiles(dir, name, into)
+      continue
+    }
+    const stats = await fs.promises.stat(path.join(dir, ...name.split('/'))).catch(() => undefined)
+    if (stats?.isFile()) {
+      into.set(name, { size: stats.size, modified: stats.mtime })
+    }
+  }
+  return into
+}
+
+// Objects under `prefix` keyed by the rest of their key. Keys ending in `/` are the placeholders some tools create
+// for empty directories and don't hold any data worth copying.
+export async function listRemoteObjects(client: S3.S3, bucket: string, prefix: string): Promise<Map<string, Entry>> {
+  const objects = new Map<string, Entry>()
+  for await (const page of listObjectPages(client, { Bucket: bucket, Prefix: prefix })) {
+    for (const object of page.Contents ?? []) {
+      if (!object.Key!.endsWith('/')) {
+        objects.set(object.Key!.slice(prefix.length), {
+          size: object.Size!,
+          modified: object.LastModified!,
+          etag: object.ETag,
+        })
+      }
+    }
+  }
+  return objects
+}
+
+// Resolves where a relative path from a listing ends up locally. Keys can contain `..` segments or a leading `/`,
+// neither of which is allowed to write outside of `dir`.
+export function localPathFor(dir: string, relative: string): string | undefined {
+  const target = path.resolve(dir, ...relative.split('/').filter((segment) => segment !== ''))
+  const inside = path.relative(path.resolve(dir), target)
+  return inside === '' || inside.split(path.sep)[0] === '..' || path.isAbsolute(inside) ? undefined : target
+}
+
+async function statOrUndefined(p: string): Promise<fs.Stats | undefined> {
+  try {
+    return await fs.promises.stat(p)
+  } catch (e) {
+    return undefined
+  }
+}
+
+async function headOrUndefined(client: S3.S3, bucket: string, key: string): Promise<Entry | undefined> {
+  try {
+    const head = await client.send(new S3.HeadObjectCommand({ Bucket: bucket, Key: key }))
+    return { size: head.ContentLength!, modified: head.LastModified!, etag: head.ETag }
+  } catch (e) {
+    if ((e as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode === 404) {
+      return undefined
+    }
+    throw e
+  }
+}
+
+function countingStream(onProgress: (bytes: number) => void): Transform {
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      onProgress(chunk.length)
+      callback(null, chunk)
+    },
+  })
+}
+
+export type ObjectMetadata = ReturnType<typeof objectMetadataFromArgs>
+
+// Uploads a file as one object, in parts once it's large enough to be worth it.
+export async function uploadFile(
+  client: S3.S3,
+  input: S3.PutObjectCommandInput & { Bucket: string; Key: string },
+  file: string,
+  size: number,
+  signal: AbortSignal,
+  onProgress: (bytes: number) => void,
+): Promise<void> {
+  if (size > defaultMultipartThreshold) {
+    const response = await putFileMultipart(client, input, file, size, {
+      partSize: defaultPartSize,
+      concurrency: defaultConcurrency,
+    }, onProgress)
+    if (response.err) {
+      throw response.val
+    }
+    return
+  }
+
+  // Read up front rather than streamed so that the SDK can retry the request with the same body.
+  const body = await readFileRange(file, 0, size)
+  await client.send(new S3.PutObjectCommand({ ...input, Body: body, ContentLength: size }), {
+    abortSignal: signal as unknown as AWSTypes.AbortSignal,
+  })
+  onProgress(size)
+}
+
+// Downloads an object next to `file` and only renames it into place once it's complete. The modification time is set
+// to the object's so that comparing the two later on tells whether either has changed.
+export async function downloadObject(
+  client: S3.S3,
+  bucket: string,
+  key: string,
+  file: string,
+  signal: AbortSignal,
+  onProgress: (bytes: number) => void,
+): Promise<void> {
+  const response = await client.send(new S3.GetObjectCommand({ Bucket: bucket, Key: key }), {
+    abortSignal: signal as unknown as AWSTypes.AbortSignal,
+  })
+  await makeDirectory(path.dirname(file))
+  const partial = `${file}.${process.pid}.partial`
+  try {
+    await pipeline(response.Body as Readable, countingStream(onProgress), fs.createWriteStream(partial), { signal })
+    await fs.promises.rename(partial, file)
+  } catch (e) {
+    await removeFile(partial)
+    throw e
+  }
+  if (response.LastModified !== undefined) {
+    await fs.promises.utimes(file, new Date(), response.LastModified)
+  }
+}
+
+// Copies an object within R2. Metadata is replaced if any was given and copied from the source otherwise.
+export async function copyRemoteObject(
+  client: S3.S3,
+  input: S3.CreateMultipartUploadCommandInput & { Bucket: string; Key: string },
+  source: { Bucket: string; Key: string },
+  size: number,
+  replaceMetadata: boolean,
+  onProgress: (bytes: number) => void,
+): Promise<void> {
+  let reported = false
+  const response = await copyObject(client, input, source, {}, replaceMetadata, {
+    partSize: defaultCopyPartSize,
+    concurrency: defaultConcurrency,
+  }, () => {
+    reported = true
+    return onProgress
+  })
+  if (response.err) {
+    throw response.val
+  }
+  if (!reported) {
+    onProgress(size)
+  }
+}
+
+export const overwritePolicies = ['always', 'never', 'newer'] as const
+export type OverwritePolicy = typeof overwritePolicies[number]
+
+function shouldCopy(policy: OverwritePolicy, source: Entry, existing: Entry | undefined): boolean {
+  if (existing === undefined || policy === 'always') {
+    return true
+  }
+  return policy === 'newer' && source.modified > existing.modified
+}
+
+// A single file or object to transfer. Paths are local paths or keys depending on which side they're on.
+export interface PlannedCopy {
+  source: string
+  destination: string
+  entry: Entry
+  // Where it is within the directory or prefix being copied, if it's part of one.
+  relative?: string
+}
+
+export interface Endpoint {
+  location: Location
+  // Only set for R2 locations.
+  client?: S3.S3
+}
+
+// Works out what copying `source` to `destination` means for a single file or object. Like cp, a destination that's
+// a directory (or ends in `/`) gets the source's name appended.
+async function planSingle(source: Endpoint, destination: Endpoint): Promise<Result<PlannedCopy, Error>> {
+  let entry: Entry | undefined
+  let name: string
+  if (source.location.kind === 'local') {
+    const stats = await statOrUndefined(source.location.path)
+    if (stats?.isDirectory()) {
+      return Err(new Error(`${source.location.path} is a directory. Use --recursive to copy its contents.`))
+    }
+    entry = stats?.isFile() ? { size: stats.size, modified: stats.mtime } : undefined
+    name = path.basename(source.location.path)
+  } else {
+    if (source.location.key === '' || source.location.key.endsWith('/')) {
+      return Err(new Error(`${formatLocation(source.location)} is a prefix. Use --recursive to copy what's under it.`))
+    }
+    entry = await headOrUndefined(source.client!, source.location.bucket, source.location.key)
+    name = source.location.key.slice(source.location.key.lastIndexOf('/') + 1)
+  }
+  if (entry === undefined) {
+    return Err(new Error(`${formatLocation(source.location)} doesn't exist`))
+  }
+
+  let target: string
+  if (destination.location.kind === 'local') {
+    const p = destination.location.path
+    const isDirectory = p.endsWith('/') || p.endsWith(path.sep) || (await statOrUndefined(p))?.isDirectory()
+    target = isDirectory ? path.join(p, name) : p
+  } else {
+    const key = destination.location.key
+    target = key === '' || key.endsWith('/') ? `${key}${name}` : key
+  }
+  const from = source.location.kind === 'local' ? source.location.path : source.location.key
+  return Ok({ source: from, destination: target, entry })
+}
+
+function sourcePath(location: Location, relative: string): string {
+  return location.kind === 'local' ?
+    path.join(location.path, ...relative.split('/')) :
+    directoryPrefix(location.key) + relative
+}
+
+// Where something at `relative` under a directory or prefix is written to. Nothing is allowed to end up outside of a
+// local directory.
+export function destinationPath(location: Location, relative: string): string | undefined {
+  return location.kind === 'local' ? localPathFor(location.path, relative) : directoryPrefix(location.key) + relative
+}
+
+// Everything in a local directory or under a prefix, keyed by the path relative to it. A local directory that doesn't
+// exist is only an error if `missing` isn't given to use instead.
+export async function listTree(
+  endpoint: Endpoint,
+  missing?: Map<string, Entry>,
+): Promise<Result<Map<string, Entry>, Error>> {
+  if (endpoint.location.kind === 'r2') {
+    const prefix = directoryPrefix(endpoint.location.key)
+    return Ok(await listRemoteObjects(endpoint.client!, endpoint.location.bucket, prefix))
+  }
+  const stats = await statOrUndefined(endpoint.location.path)
+  if (stats === undefined && missing !== undefined) {
+    return Ok(missing)
+  }
+  if (!stats?.isDirectory()) {
+    return Err(new Error(`${endpoint.location.path} isn't a directory`))
+  }
+  return Ok(await listLocalFiles(endpoint.location.path))
+}
+
+// Works out where each listed entry is transferred to, skipping anything that can't be written safely.
+export function planTree(source: Location, destination: Location, entries: Map<string, Entry>): PlannedCopy[] {
+  const planned: PlannedCopy[] = []
+  for (const [relative, entry] of entries) {
+    const target = destinationPath(destination, relative)
+    if (target === undefined) {
+      console.warn(`Skipping ${formatLocation(source, relative)} since it would be written outside of the destination`)
+      continue
+    }
+    planned.push({ source: sourcePath(source, relative), destination: target, entry, relative })
+  }
+  return planned
+}
+
+async function planRecursive(source: Endpoint, destination: Endpoint): Promise<Result<PlannedCopy[], Error>> {
+  const entries = await listTree(source)
+  return entries.map((found) => planTree(source.location, destination.location, found))
+}
+
+async function existingEntry(destination: Endpoint, target: string): Promise<Entry | undefined> {
+  if (destination.location.kind === 'local') {
+    const stats = await statOrUndefined(target)
+    return stats?.isFile() ? { size: stats.size, modified: stats.mtime } : undefined
+  }
+  return headOrUndefined(destination.client!, destination.location.bucket, target)
+}
+
+// What's already at the destination of each planned copy. A recursive copy into R2 lists the destination prefix once
+// rather than asking about every object.
+async function existingEntries(
+  destination: Endpoint,
+  planned: PlannedCopy[],
+  recursive: boolean,
+): Promise<(Entry | undefined)[]> {
+  if (recursive && destination.location.kind === 'r2') {
+    const prefix = directoryPrefix(destination.location.key)
+    const existing = await listRemoteObjects(destination.client!, destination.location.bucket, prefix)
+    return planned.map((item) => existing.get(item.destination.slice(prefix.length)))
+  }
+  const entries: (Entry | undefined)[] = []
+  for (const item of planned) {
+    entries.push(await existingEntry(destination, item.destination))
+  }
+  return entries
+}
+
+// Creates the client for each side in R2. A server-side copy has to be signed with a single set of credentials, so
+// both sides have to end up with the same token. That's checked after the profiles are resolved since tokens scoped to
+// different buckets can pick different profiles even when neither side names one.
+export async function connectEndpoints(
+  argv: { account?: string; verbose?: boolean },
+  source: Location,
+  destination: Location,
+): Promise<Result<[Endpoint, Endpoint], Error>> {
+  const endpoints: Endpoint[] = []
+  for (const location of [source, destination]) {
+    if (location.kind === 'local') {
+      endpoints.push({ location })
+      continue
+    }
+    const created = await createClient({
+      account: location.profile ?? argv.account,
+      bucket: location.bucket,
+      verbose: argv.verbose,
+    })
+    if (created.err) {
+      return created
+    }
+    endpoints.push({ location, client: created.val })
+  }
+
+  const [from, to] = endpoints
+  if (from!.client !== undefined && to!.client !== undefined) {
+    const [fromCredentials, toCredentials] = await Promise.all([
+      from!.client.config.credentials(),
+      to!.client.config.credentials(),
+    ])
+    if (fromCredentials.accessKeyId !== toCredentials.accessKeyId) {
+      return Err(
+        new Error("Copying between objects in different profiles isn't supported. Download and upload instead."),
+      )
+    }
+  }
+  return Ok([from!, to!])
+}
+
+// Transfers a single planned file or object in whichever direction the endpoints point.
+export async function transfer(
+  source: Endpoint,
+  destination: Endpoint,
+  item: { source: string; destination: string; entry: Entry },
+  metadata: ObjectMetadata,
+  replaceMetadata: boolean,
+  signal: AbortSignal,
+  onProgress: (bytes: number) => void,
+): Promise<void> {
+  if (source.location.kind === 'local' && destination.location.kind === 'r2') {
+    await uploadFile(
+      destination.client!,
+      { ...metadata, Bucket: destination.location.bucket, Key: item.destination },
+      item.source,
+      item.entry.size,
+      signal,
+      onProgress,
+    )
+  } else if (source.location.kind === 'r2' && destination.location.kind === 'local') {
+    await downloadObject(source.client!, source.location.bucket, item.source, item.destination, signal, onProgress)
+  } else if (source.location.kind === 'r2' && destination.location.kind === 'r2') {
+    await copyRemoteObject(
+      destination.client!,
+      {
+        ...metadata,
+        Bucket: destination.location.bucket,
+        Key: item.destination,
+      },
+      { Bucket: source.location.bucket, Key: item.source },
+      item.entry.size,
+      replaceMetadata,
+      onProgress,
+    )
+  } else {
+    throw new Error("Copying between two local paths isn't supported")
+  }
+}
+
+export function hasMetadataArgs(argv: ObjectMetadataArgs): boolean {
+  return ['cache-control', 'content-disposition', 'content-encoding', 'content-language', 'content-type', 'expires']
+    .some((name) => argv[name as keyof ObjectMetadataArgs] !== undefined) || (argv['meta'] ?? []).length !== 0
+}
+
+export const sizeFormat = sizeFormatter({ std: 'IEC', decimalPlaces: 2, keepTrailingZeroes: false })
+
+export interface TransferOptions {
+  metadata: ObjectMetadata
+  replaceMetadata: boolean
+  concurrency: number
+  // What the progress bar is labelled with.
+  description: string
+}
+
+export interface TransferResult {
+  transferred: number
+  bytes: number
+  failures: string[]
+  interrupted: boolean
+}
+
+// Transfers everything planned with a single progress bar for all of it. A failure doesn't stop the rest but is
+// collected for reporting at the end, while Ctrl-C stops anything new from starting.
+export async function runTransfers(
+  from: Endpoint,
+  to: Endpoint,
+  planned: PlannedCopy[],
+  options: TransferOptions,
+  progressBarCreator: ProgressBarCreator,
+): Promise<TransferResult> {
+  const controller = new AbortController()
+  const result: TransferResult = { transferred: 0, bytes: 0, failures: [], interrupted: false }
+
+  const progressBar = progressBarCreator({ description: options.description })
+  if (planned.length !== 0) {
+    progressBar.start(planned.reduce((sum, item) => sum + item.entry.size, 0), 0, { speed: 'N/A' })
+  }
+  const onProgress = progressWithSpeed(progressBar)
+
+  await abortOnInterrupt(
+    controller,
+    () =>
+      forEachConcurrently(planned, options.concurrency, controller.signal, async (item) => {
+        try {
+          await transfer(from, to, item, options.metadata, options.replaceMetadata, controller.signal, onProgress)
+          result.transferred++
+          result.bytes += item.entry.size
+        } catch (e) {
+          result.failures.push(`${item.source}: ${controller.signal.aborted ? 'Interrupted' : describeError(e)}`)
+        }
+      }),
+  )
+  progressBar.stop()
+  result.interrupted = controller.signal.aborted
+  return result
+}
+
+export interface CpArgs extends ObjectMetadataArgs {
+  source: string
+  destination: string
+  recursive?: boolean
+  concurrency: number
+  overwrite: OverwritePolicy
+  account?: string
+  verbose?: boolean
+}
+
+export async function cpCommand(
+  argv: ArgumentsCamelCase<CpArgs>,
+  progressBarCreator: ProgressBarCreator,
+): Promise<void> {
+  if (!Number.isInteger(argv.concurrency) || argv.concurrency < 1) {
+    console.error('The concurrency must be a positive integer')
+    process.exitCode = 1
+    return
+  }
+
+  const locations = parseLocations(argv.source, argv.destination)
+  if (locations.err) {
+    console.error(locations.val.message)
+    process.exitCode = 1
+    return
+  }
+
+  const replaceMetadata = hasMetadataArgs(argv)
+  if (replaceMetadata && locations.val[1].kind === 'local') {
+    console.error('Metadata options only apply when copying to R2')
+    process.exitCode = 1
+    return
+  }
+  let metadata: ObjectMetadata
+  try {
+    metadata = objectMetadataFromArgs(argv)
+  } catch (e) {
+    console.error((e as Error).message)
+    process.exitCode = 1
+    return
+  }
+
+  const connected = await connectEndpoints(argv, ...locations.val)
+  if (connected.err) {
+    if (connected.val.message) {
+      console.error(connected.val.message)
+    }
+    process.exitCode = 1
+    return
+  }
+  const [from, to] = connected.val
+
+  let planned: PlannedCopy[]
+  try {
+    const plan = argv.recursive ?
+      await planRecursive(from, to) :
+      await planSingle(from, to).then((p) => p.map((i) => [i]))
+    if (plan.err) {
+      console.error(plan.val.message)
+      process.exitCode = 1
+      return
+    }
+    planned = plan.val
+  } catch (e) {
+    console.error(`Unable to list ${argv.source}: ${describeError(e)}`)
+    process.exitCode = 1
+    return
+  }
+
+  let wanted = planned
+  if (argv.overwrite !== 'always') {
+    try {
+      const existing = await existingEntries(to, planned, argv.recursive ?? false)
+      wanted = planned.filter((item, idx) => shouldCopy(argv.overwrite, item.entry, existing[idx]))
+    } catch (e) {
+      console.error(`Unable to check ${argv.destination}: ${describeError(e)}`)
+      process.exitCode = 1
+      return
+    }
+  }
+  const skipped = planned.length - wanted.length
+
+  const result = await runTransfers(from, to, wanted, {
+    metadata,
+    replaceMetadata,
+    concurrency: argv.concurrency,
+    description: 'cp',
+  }, progressBarCreator)
+  for (const failure of result.failures) {
+    console.error(`Failed ${failure}`)
+  }
+  const skippedSummary = skipped !== 0 ? `, skipped ${skipped} that already exist` : ''
+  const failedSummary = result.failures.length !== 0 ? `, ${result.failures.length} failed` : ''
+  console.info(
+    `Copied ${countOf(result.transferred, 'file')} (${sizeFormat(result.bytes)})${skippedSummary}${failedSummary}`,
+  )
+  if (result.failures.length !== 0 || result.interrupted) {
+    process.exitCode = 1
+  }
+}
@@ -0,0 +1,220 @@
+import TOML from '@iarna/toml'
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import { pipeline } from 'node:stream/promises'
+import { Err, Ok, Result } from 'ts-results'
+
+export async function touchPath(p: string, mode?: fs.Mode): Promise<void> {
+  const fd = await new Promise<number>((resolve, reject) =>
+    fs.open(p, 'a', mode, (err, fd) => {
+      if (err) {
+        reject(err)
+      } else {
+        resolve(fd)
+      }
+    })
+  )
+
+  return new Promise<void>((resolve, reject) => {
+    fs.close(fd, (err) => {
+      if (err) {
+        reject(err)
+      } else {
+        resolve()
+      }
+    })
+  })
+}
+
+export async function readTextFile(p: string): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    fs.readFile(p, { encoding: 'utf8' }, (err, data) => {
+      if (err) { reject(err) }
+      resolve(data)
+    })
+  })
+}
+
+export async function readFileRange(p: string, start: number, length: number): Promise<Buffer> {
+  const fd = await new Promise<number>((resolve, reject) =>
+    fs.open(p, 'r', (err, fd) => err ? reject(err) : resolve(fd))
+  )
+
+  try {
+    const buffer = Buffer.alloc(length)
+    let filled = 0
+    while (filled < length) {
+      const read = await new Promise<number>((resolve, reject) =>
+        fs.read(fd, buffer, filled, length - filled, start + filled, (err, read) => err ? reject(err) : resolve(read))
+      )
+      if (read === 0) {
+        throw new Error(`${p} is shorter than expected`)
+      }
+      filled += read
+    }
+    return buffer
+  } finally {
+    await new Promise<void>((resolve) => fs.close(fd, () => resolve()))
+  }
+}
+
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+export async function writeTextFile(p: string, contents: string, mode?: fs.Mode): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    fs.writeFile(p, contents, { encoding: 'utf8', mode }, (err) => {
+      if (err) { reject(err) }
+      resolve()
+    })
+  })
+}
+
+// Unlike the mode given when writing a file, this also applies to files that already exist.
+export async function setFileMode(p: string, mode: fs.Mode): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    fs.chmod(p, mode, (err) => err ? reject(err) : resolve())
+  })
+}
+
+export async function makeDirectory(p: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    fs.mkdir(p, { recursive: true }, (err) => err ? reject(err) : resolve())
+  })
+}
+
+export async function listDirectory(p: string): Promise<string[]> {
+  return new Promise<string[]>((resolve, reject) => {
+    fs.readdir(p, (err, names) => err ? reject(err) : resolve(names))
+  })
+}
+
+// Removing a file that's already gone isn't an error.
+export async function removeFile(p: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    fs.unlink(p, (err) => err && err.code !== 'ENOENT' ? reject(err) : resolve())
+  })
+}
+
+// Writes to a temporary file next to the destination and renames it into place so that readers only ever see the old
+// or the new contents, never a partially written file.
+export async function writeTextFileAtomic(p: string, contents: string, mode?: fs.Mode): Promise<void> {
+  const tmpPath = `${p}.${process.pid}.tmp`
+  await writeTextFile(tmpPath, contents, mode)
+  return new Promise<void>((resolve, reject) => {
+    fs.rename(tmpPath, p, (err) => {
+      if (err) {
+        fs.unlink(tmpPath, () => reject(err))
+      } else {
+        resolve()
+      }
+    })
+  })
+}
+
+export async function fileMd5(p: string): Promise<string> {
+  const hash = crypto.createHash('md5')
+  await pipeline(fs.createReadStream(p), hash)
+  return hash.digest('hex')
+}
+
+// e.g. "1 file" or "3 files".
+export function countOf(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+// Runs `each` over `items` with up to `concurrency` at a time, not starting anything new once `signal` is aborted.
+// `each` is expected to deal with its own failures so that one doesn't stop the others.
+export async function forEachConcurrently<T>(
+  items: T[],
+  concurrency: number,
+  signal: AbortSignal | undefined,
+  each: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      await each(items[next++]!)
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker))
+}
+
+// Supports `*` (any run of characters) and `?` (any single character). Everything else matches literally.
+export function globToRegExp(glob: string): RegExp {
+  let pattern = ''
+  for (const c of glob) {
+    if (c === '*') {
+      pattern += '.*'
+    } else if (c === '?') {
+      pattern += '.'
+    } else {
+      pattern += c.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${pattern}$`, 's')
+}
+
+// Reads a JSON or TOML file (`-` for stdin). Files without a .json or .toml extension are tried as JSON and then as
+// TOML. `source` is how to refer to where the contents came from in messages.
+export async function readStructuredFile(path: string): Promise<Result<{ raw: unknown; source: string }, Error>> {
+  const source = path === '-' ? 'stdin' : path
+  let contents: string
+  try {
+    contents = path === '-' ? await readStdin() : await readTextFile(path)
+  } catch (e) {
+    return Err(new Error(`Unable to read ${source}: ${(e as Error).message}`))
+  }
+
+  const parsers: [string, (contents: string) => unknown][] = []
+  if (!path.endsWith('.toml')) {
+    parsers.push(['JSON', JSON.parse])
+  }
+  if (!path.endsWith('.json')) {
+    parsers.push(['TOML', TOML.parse])
+  }
+
+  const failures: string[] = []
+  for (const [format, parse] of parsers) {
+    try {
+      return Ok({ raw: parse(contents), source })
+    } catch (e) {
+      failures.push(`not valid ${format} (${(e as Error).message})`)
+    }
+  }
+
+  return Err(new Error(`Unable to parse ${source}: ${failures.join('; ')}`))
+}
+
+const sizeUnits: Record<string, number> = {
+  '': 1,
+  'b': 1,
+  'k': 1000,
+  'kb': 1000,
+  'kib': 1024,
+  'm': 1000 ** 2,
+  'mb': 1000 ** 2,
+  'mib': 1024 ** 2,
+  'g': 1000 ** 3,
+  'gb': 1000 ** 3,
+  'gib': 1024 ** 3,
+}
+
+// Parses sizes like `5242880`, `16MiB` or `1.5GB`.
+export function parseSize(size: string | number): number {
+  if (typeof size === 'number') {
+    return size
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]*)\s*$/i.exec(size)
+  const multiplier = match ? sizeUnits[match[2]!.toLowerCase()] : undefined
+  if (match === null || multiplier === undefined) {
+    throw new Error(`Unrecognized size '${size}' (expected something like 16MiB)`)
+  }
+  return Math.round(parseFloat(match[1]!) * multiplier)
+}